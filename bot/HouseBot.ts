@@ -0,0 +1,163 @@
+import { END_RULE_COINS, LISTING_OPEN, ZERO_ADDRESS } from "../client/HonestHouseClient";
+import type { GameSummary, HonestHouseClient } from "../client/HonestHouseClient";
+import { roundsLeft } from "./strategies";
+import type { BidStrategy, RoundOutcome } from "./strategies";
+
+// Plays HonestHouse on its own: joins open games it can afford, starts full games it created, finishes coins-exhausted
+// games once every seat has spent its coins and submits an encrypted bid whenever a round waits on its seat. The
+// client must hold a signer and an FHEVM instance.
+
+const PAGE_SIZE = 50;
+
+export type BotOptions = {
+  client: HonestHouseClient;
+  strategy: BidStrategy;
+  // Join open games created by others, at most this many at a time. 0 only plays games the bot is already in.
+  maxGames?: number;
+  // Largest ETH stake the bot puts down to join a game. Token stakes and token-funded coins are never joined.
+  maxStake?: bigint;
+  log?: (message: string) => void;
+};
+
+export class HouseBot {
+  readonly strategy: BidStrategy;
+  private readonly client: HonestHouseClient;
+  private readonly maxGames: number;
+  private readonly maxStake: bigint;
+  private readonly log: (message: string) => void;
+
+  constructor(options: BotOptions) {
+    this.client = options.client;
+    this.strategy = options.strategy;
+    this.maxGames = options.maxGames ?? 0;
+    this.maxStake = options.maxStake ?? 0n;
+    this.log = options.log ?? (() => {});
+  }
+
+  // One pass over the house. Returns the number of transactions sent.
+  async step(): Promise<number> {
+    const account = await this.account();
+    const seated = await this.seatedGames(account);
+    let actions = 0;
+
+    const unfinished = seated.filter((game) => !game.finished && !game.cancelled).length;
+    if (unfinished < this.maxGames) {
+      actions += await this.joinOpenGames(account, this.maxGames - unfinished);
+    }
+
+    for (const game of seated) {
+      // Only the creator starts a full game, so two bots in the same game do not race for it.
+      if (!game.started && !game.cancelled && game.players[0] === account && !game.players.includes(ZERO_ADDRESS)) {
+        await this.client.startGame(game.gameId);
+        this.log(`Started game ${game.gameId}`);
+        actions++;
+      } else if (this.mayBeExhausted(game) && (await this.client.confirmCoinsExhausted(game.gameId))) {
+        this.log(`Finished game ${game.gameId} with every seat out of coins`);
+        actions++;
+      } else if (game.awaitingSubmission) {
+        await this.submitBid(account, game);
+        actions++;
+      }
+    }
+    return actions;
+  }
+
+  // Keeps stepping until the signal aborts. Failed passes are logged and retried on the next tick.
+  async run(intervalMs: number, signal: AbortSignal) {
+    while (!signal.aborted) {
+      try {
+        await this.step();
+      } catch (error) {
+        this.log(`Bot step failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  private async account(): Promise<string> {
+    const runner = this.client.contract.runner as { getAddress?: () => Promise<string> } | null;
+    if (!runner?.getAddress) {
+      throw new Error("HouseBot needs a client with a signer");
+    }
+    return runner.getAddress();
+  }
+
+  private async seatedGames(account: string) {
+    const games = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.client.getGamesByPlayer(account, offset, PAGE_SIZE);
+      games.push(...page.games);
+      if (offset + PAGE_SIZE >= page.total) {
+        return games;
+      }
+    }
+  }
+
+  private async joinOpenGames(account: string, slots: number): Promise<number> {
+    let joined = 0;
+    for (let offset = 0; joined < slots; offset += PAGE_SIZE) {
+      const page = await this.client.getGames(offset, PAGE_SIZE, LISTING_OPEN);
+      for (const game of page.games) {
+        if (joined < slots && this.canJoin(account, game)) {
+          await this.client.joinGame(game.gameId);
+          this.log(`Joined game ${game.gameId}`);
+          joined++;
+        }
+      }
+      if (offset + PAGE_SIZE >= page.total) {
+        break;
+      }
+    }
+    return joined;
+  }
+
+  private canJoin(account: string, game: GameSummary): boolean {
+    const { rules } = game;
+    return (
+      !game.players.includes(account) &&
+      game.players.includes(ZERO_ADDRESS) &&
+      rules.coinToken === ZERO_ADDRESS &&
+      (rules.stakeAmount === 0n || (rules.stakeToken === ZERO_ADDRESS && rules.stakeAmount <= this.maxStake))
+    );
+  }
+
+  // The public "all balances are zero" flag exists once a round of a coins-exhausted game has resolved.
+  private mayBeExhausted(game: GameSummary): boolean {
+    return game.started && !game.finished && game.rules.endRule === END_RULE_COINS && game.round > 1;
+  }
+
+  // Decrypts the seat's balance and past rounds in one batch, asks the strategy for a bid and submits it.
+  private async submitBid(account: string, game: GameSummary) {
+    const state = await this.client.getPlayerState(game.gameId, account);
+    const history = game.round > 1 ? await this.client.getRoundHistory(game.gameId, 1, game.round - 1) : [];
+    const handles = [
+      state.coins,
+      state.score,
+      ...history.flatMap((record) => [record.contributions[state.seat], record.won[state.seat]]),
+    ];
+    const clear = await this.client.userDecrypt(handles);
+
+    const coins = Number(clear[state.coins]);
+    const outcomes: RoundOutcome[] = history.map((record) => ({
+      round: record.round,
+      contribution: Number(clear[record.contributions[state.seat]]),
+      won: Boolean(clear[record.won[state.seat]]),
+    }));
+    const bid = this.strategy.bid({
+      gameId: game.gameId,
+      round: game.round,
+      rules: game.rules,
+      coins,
+      score: Number(clear[state.score]),
+      roundsLeft: roundsLeft(game.rules, game.round),
+      history: outcomes,
+    });
+    if (!Number.isFinite(bid)) {
+      throw new Error(`${this.strategy.name} returned ${bid} for game ${game.gameId}`);
+    }
+
+    const amount = Math.max(0, Math.min(coins, Math.floor(bid)));
+    await this.client.submitCoins(game.gameId, amount);
+    this.log(`Bid ${amount} of ${coins} coins in game ${game.gameId}, round ${game.round}`);
+  }
+}
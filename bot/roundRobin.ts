@@ -0,0 +1,154 @@
+import type { GameRules, HonestHouseClient } from "../client/HonestHouseClient";
+import { HouseBot } from "./HouseBot";
+import type { BidStrategy } from "./strategies";
+
+// Round-robin between bidding strategies: every pair meets in a series of two-seat games, each strategy playing from
+// its own account. Final coins and scores are decrypted by their owners, so no game needs to be settled.
+
+export type Entrant = {
+  strategy: BidStrategy;
+  // Client bound to the entrant's own signer and an FHEVM instance.
+  client: HonestHouseClient;
+};
+
+export type MatchResult = {
+  gameId: number;
+  players: [string, string];
+  coins: [number, number];
+  scores: [number, number];
+  // Index into players, or undefined for a draw.
+  winner?: 0 | 1;
+};
+
+export type Standing = {
+  rank: number;
+  strategy: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  totalScore: number;
+  averageScore: number;
+  averageCoinsLeft: number;
+};
+
+export type RoundRobinResult = {
+  rules: GameRules;
+  matches: MatchResult[];
+  standings: Standing[];
+};
+
+// Upper bound on bot passes per game, past the 255 rounds a game can have under either end rule. The bots confirm a
+// coins-exhausted game as soon as its public flag shows every seat out of coins.
+const MAX_PASSES = 256;
+
+async function playMatch(home: Entrant, away: Entrant, rules: GameRules): Promise<MatchResult> {
+  const gameId = await home.client.createGame(rules);
+  await away.client.joinGame(gameId);
+  await home.client.startGame(gameId);
+
+  const bots = [home, away].map((entrant) => new HouseBot({ client: entrant.client, strategy: entrant.strategy }));
+  for (let pass = 0; !(await home.client.getGameSummary(gameId)).finished; pass++) {
+    if (pass === MAX_PASSES) {
+      throw new Error(`Game ${gameId} between ${home.strategy.name} and ${away.strategy.name} did not finish`);
+    }
+    for (const bot of bots) {
+      await bot.step();
+    }
+  }
+
+  const homeBalance = await home.client.decryptBalance(gameId);
+  const awayBalance = await away.client.decryptBalance(gameId);
+  const scores: [number, number] = [Number(homeBalance.score), Number(awayBalance.score)];
+  return {
+    gameId,
+    players: [home.strategy.name, away.strategy.name],
+    coins: [Number(homeBalance.coins), Number(awayBalance.coins)],
+    scores,
+    winner: scores[0] === scores[1] ? undefined : scores[0] > scores[1] ? 0 : 1,
+  };
+}
+
+// Ranks by wins, then draws, then total score.
+export function rankStandings(names: string[], matches: MatchResult[]): Standing[] {
+  const standings = names.map((strategy) => {
+    let coinsLeft = 0;
+    const standing = { rank: 0, strategy, played: 0, wins: 0, draws: 0, losses: 0, totalScore: 0 };
+    for (const match of matches) {
+      const seat = match.players.indexOf(strategy);
+      if (seat < 0) {
+        continue;
+      }
+      standing.played++;
+      standing.totalScore += match.scores[seat];
+      coinsLeft += match.coins[seat];
+      if (match.winner === undefined) {
+        standing.draws++;
+      } else if (match.winner === seat) {
+        standing.wins++;
+      } else {
+        standing.losses++;
+      }
+    }
+    const played = Math.max(standing.played, 1);
+    return { ...standing, averageScore: standing.totalScore / played, averageCoinsLeft: coinsLeft / played };
+  });
+
+  standings.sort((a, b) => b.wins - a.wins || b.draws - a.draws || b.totalScore - a.totalScore);
+  standings.forEach((standing, i) => (standing.rank = i + 1));
+  return standings;
+}
+
+// Plays `gamesPerPair` games for every pair, alternating which side creates the game and bids first.
+export async function playRoundRobin(
+  entrants: Entrant[],
+  rules: GameRules,
+  gamesPerPair: number,
+  log: (message: string) => void = () => {},
+): Promise<RoundRobinResult> {
+  const names = entrants.map((entrant) => entrant.strategy.name);
+  if (new Set(names).size !== names.length) {
+    throw new Error("Every strategy in a round-robin needs a distinct name");
+  }
+  if (rules.seatCount !== 2) {
+    throw new Error("Round-robin games have two seats");
+  }
+
+  const matches: MatchResult[] = [];
+  for (let i = 0; i < entrants.length; i++) {
+    for (let j = i + 1; j < entrants.length; j++) {
+      for (let game = 0; game < gamesPerPair; game++) {
+        const [home, away] = game % 2 === 0 ? [entrants[i], entrants[j]] : [entrants[j], entrants[i]];
+        const match = await playMatch(home, away, rules);
+        log(
+          `Game ${match.gameId}: ${match.players[0]} ${match.scores[0]} - ${match.scores[1]} ${match.players[1]}` +
+            ` (coins left ${match.coins[0]} / ${match.coins[1]})`,
+        );
+        matches.push(match);
+      }
+    }
+  }
+  return { rules, matches, standings: rankStandings(names, matches) };
+}
+
+export function standingsCsv(standings: Standing[]): string {
+  const columns: (keyof Standing)[] = [
+    "rank",
+    "strategy",
+    "played",
+    "wins",
+    "draws",
+    "losses",
+    "totalScore",
+    "averageScore",
+    "averageCoinsLeft",
+  ];
+  const escape = (value: string | number) =>
+    /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+  return (
+    [
+      columns.join(","),
+      ...standings.map((standing) => columns.map((column) => escape(standing[column])).join(",")),
+    ].join("\n") + "\n"
+  );
+}
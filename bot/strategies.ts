@@ -0,0 +1,100 @@
+import { resolve } from "path";
+import { END_RULE_ROUNDS } from "../client/HonestHouseClient";
+import type { GameRules } from "../client/HonestHouseClient";
+
+// Bidding strategies for HouseBot. A strategy only sees what its own seat can decrypt: its coins, its score and the
+// outcome of its earlier rounds.
+
+export type RoundOutcome = {
+  round: number;
+  contribution: number;
+  won: boolean;
+};
+
+export type BidContext = {
+  gameId: number;
+  round: number;
+  rules: GameRules;
+  coins: number;
+  score: number;
+  // Rounds left including this one, or undefined when the game runs until the coins are spent.
+  roundsLeft?: number;
+  history: RoundOutcome[];
+};
+
+export interface BidStrategy {
+  readonly name: string;
+  // Coins to submit this round. HouseBot clamps the bid to the coins the seat still holds.
+  bid(context: BidContext): number;
+}
+
+// Rounds the strategies plan for when a game only ends once the coins are spent.
+const OPEN_ENDED_ROUNDS = 10;
+
+// Bids the same share of whatever it still holds every round.
+export function fixedFraction(fraction: number): BidStrategy {
+  if (!(fraction > 0 && fraction <= 1)) {
+    throw new Error("fraction must be in (0, 1]");
+  }
+  return {
+    name: `fixed:${fraction}`,
+    bid: ({ coins }) => Math.floor(coins * fraction),
+  };
+}
+
+// Bids a uniformly random share of what it holds.
+export function randomBid(random: () => number = Math.random): BidStrategy {
+  return {
+    name: "random",
+    bid: ({ coins }) => Math.floor(random() * (coins + 1)),
+  };
+}
+
+// Starts from an even split and adjusts after each decrypted result: it bids more after losing a round and less after
+// winning one, so it neither keeps overpaying nor keeps getting outbid.
+export function adaptive(step = 0.25): BidStrategy {
+  if (!(step > 0 && step < 1)) {
+    throw new Error("step must be in (0, 1)");
+  }
+  return {
+    name: "adaptive",
+    bid: ({ coins, roundsLeft, history }) => {
+      let factor = 1;
+      for (const outcome of history) {
+        factor = Math.max(0.25, Math.min(3, factor * (outcome.won ? 1 - step : 1 + step)));
+      }
+      return Math.floor((coins / (roundsLeft ?? OPEN_ENDED_ROUNDS)) * factor);
+    },
+  };
+}
+
+export const BUILT_IN_STRATEGIES = ["fixed:<fraction>", "random", "adaptive"];
+
+// Resolves a strategy by name ("fixed:0.5", "random", "adaptive:0.25") or loads it from a module path whose default
+// export is a BidStrategy or a factory returning one.
+export async function loadStrategy(spec: string): Promise<BidStrategy> {
+  const [name, argument] = spec.split(":");
+  switch (name) {
+    case "fixed":
+      return fixedFraction(argument === undefined ? 0.2 : Number(argument));
+    case "random":
+      return randomBid();
+    case "adaptive":
+      return adaptive(argument === undefined ? undefined : Number(argument));
+  }
+  if (!spec.includes("/") && !spec.endsWith(".ts") && !spec.endsWith(".js")) {
+    throw new Error(`Unknown strategy ${spec}, use one of ${BUILT_IN_STRATEGIES.join(", ")} or a module path`);
+  }
+
+  const module = await import(resolve(spec));
+  const exported = module.default ?? module.strategy;
+  const strategy: BidStrategy = typeof exported === "function" ? exported() : exported;
+  if (!strategy || typeof strategy.bid !== "function") {
+    throw new Error(`${spec} does not export a BidStrategy`);
+  }
+  return strategy;
+}
+
+export function roundsLeft(rules: GameRules, round: number): number | undefined {
+  return rules.endRule === END_RULE_ROUNDS ? rules.maxRounds - round + 1 : undefined;
+}
@@ -0,0 +1,1006 @@
+import { Contract } from "ethers";
+import type { ContractRunner, ContractTransactionReceipt, InterfaceAbi, Signer } from "ethers";
+
+// Typed access to HonestHouse for the Hardhat tasks, the tests and the frontend, which imports this file through its
+// `@client` alias. Keep ethers its only import, as the frontend resolves that to its own copy. Encryption and user
+// decryption go through an FHEVM instance, either the relayer SDK instance or the Hardhat `fhevm` mock: both expose
+// the same calls.
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+export const ZERO_HASH = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+export const END_RULE_ROUNDS = 0;
+export const END_RULE_COINS = 1;
+
+export const LISTING_ALL = 0;
+export const LISTING_OPEN = 1;
+export const LISTING_ACTIVE = 2;
+export const LISTING_FINISHED = 3;
+
+// A spectator delay no game can outlast: spectators only see scores once the game finishes.
+export const SPECTATE_AFTER_GAME = 255;
+
+// Libraries HonestHouse is linked against; each is deployed before the house.
+export const HOUSE_LIBRARIES = ["GameListings", "GameReveals", "GameRounds", "Rematches", "Spectators"];
+
+export type GameRules = {
+  startingCoins: number;
+  roundReward: number;
+  maxRounds: number;
+  splitTies: boolean;
+  endRule: number;
+  turnTimeout: number;
+  forfeitOnTimeout: boolean;
+  seatCount: number;
+  stakeToken: string;
+  stakeAmount: bigint;
+  coinToken: string;
+  revealAfterGame: boolean;
+  // Rounds each round's scores stay hidden from registered spectators, 0 for a game without spectators.
+  spectatorDelay: number;
+};
+
+export type GameSummary = {
+  gameId: number;
+  players: string[];
+  started: boolean;
+  finished: boolean;
+  cancelled: boolean;
+  round: number;
+  rules: GameRules;
+  settled: boolean;
+  winner: string;
+  isPrivate: boolean;
+};
+
+export type GamePage = {
+  games: GameSummary[];
+  total: number;
+};
+
+export type GameCounts = {
+  open: number;
+  active: number;
+  finished: number;
+};
+
+export type PlayerGamePage = {
+  games: (GameSummary & { awaitingSubmission: boolean })[];
+  total: number;
+};
+
+export type CreateGameOptions = {
+  // Keeps the game out of the public listings; only invitees can join.
+  private?: boolean;
+  // Addresses allowed to join a private game without a signed invite.
+  invitees?: string[];
+};
+
+// EIP-712 types of the invites a private game's creator signs. A ZERO_ADDRESS player admits anyone holding the invite.
+export const INVITE_TYPES = {
+  Invite: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+  ],
+};
+
+export type QuickMatchResult = {
+  gameId: number;
+  // True when no game was waiting, so the caller opened one and now waits for opponents.
+  created: boolean;
+};
+
+export type PlayerState = {
+  coins: string;
+  score: string;
+  hasSubmitted: boolean;
+  seat: number;
+  coinsClaimed: boolean;
+  lastCanSpend: string;
+};
+
+export type RoundStatus = {
+  round: number;
+  started: boolean;
+  finished: boolean;
+  submitted: boolean[];
+  contributions: string[];
+  deadline: number;
+};
+
+export type GameResult = {
+  finished: boolean;
+  settled: boolean;
+  encryptedOutcome: string;
+  winner: string;
+  coinsExhausted: string;
+};
+
+export type RoundRecord = {
+  round: number;
+  contributions: string[];
+  won: string[];
+  // Every seat's running score after the round.
+  scores: string[];
+  revealed: boolean;
+  revealedContributions: number[];
+};
+
+export type Series = {
+  // Id of the chain's first game, 0 when the game is not part of a rematch chain.
+  seriesId: number;
+  players: [string, string];
+  wins: [number, number];
+  draws: number;
+  // Latest rematch proposed from the game, 0 when there is none.
+  rematchId: number;
+};
+
+export type PlayerStats = {
+  wins: number;
+  losses: number;
+  draws: number;
+  rating: number;
+};
+
+export type Standing = {
+  player: string;
+  stats: PlayerStats;
+};
+
+export const TOURNAMENT_REGISTRATION = 0;
+export const TOURNAMENT_RUNNING = 1;
+export const TOURNAMENT_FINISHED = 2;
+export const TOURNAMENT_CANCELLED = 3;
+
+export type TournamentSummary = {
+  tournamentId: number;
+  organizer: string;
+  rules: GameRules;
+  maxPlayers: number;
+  entryFee: bigint;
+  // Seconds an opponent has to join a linked game before its creator may claim a walkover, 0 for never.
+  joinWindow: number;
+  status: number;
+  entrants: string[];
+  prize: bigint;
+  champion: string;
+};
+
+export type BracketMatch = {
+  // ZERO_ADDRESS while a slot waits for an earlier match's winner, or for a first round bye.
+  players: [string, string];
+  gameId: number;
+  linkedAt: number;
+  winner: string;
+};
+
+export type MatchRef = {
+  tournamentId: number;
+  matchIndex: number;
+};
+
+export type DecryptedValue = bigint | boolean | string;
+
+type EncryptedInput = {
+  add32(value: number | bigint): unknown;
+  encrypt(): Promise<{ handles: (string | Uint8Array)[]; inputProof: string | Uint8Array }>;
+};
+
+type TypedDataField = { name: string; type: string };
+
+export type FhevmInstance = {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInput;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): {
+    domain: Record<string, unknown>;
+    types: Record<string, TypedDataField[]>;
+    message: Record<string, unknown>;
+  };
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<Record<string, DecryptedValue>>;
+  publicDecrypt(handles: string[]): Promise<{
+    clearValues: Record<string, DecryptedValue>;
+    abiEncodedClearValues: string;
+    decryptionProof: string;
+  }>;
+};
+
+export type HonestHouseErrorCode = "NO_SIGNER" | "REVERTED" | "ENCRYPTION_FAILED" | "DECRYPTION_FAILED" | "FAILED";
+
+export class HonestHouseError extends Error {
+  readonly code: HonestHouseErrorCode;
+  // The contract's require message when the call reverted, e.g. "Game full".
+  readonly reason?: string;
+
+  constructor(code: HonestHouseErrorCode, message: string, options: { reason?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "HonestHouseError";
+    this.code = code;
+    this.reason = options.reason;
+  }
+
+  static from(error: unknown, fallback: HonestHouseErrorCode = "FAILED"): HonestHouseError {
+    if (error instanceof HonestHouseError) return error;
+    const details = (error ?? {}) as { reason?: unknown; shortMessage?: unknown; message?: unknown };
+    // ethers decodes the require message into `reason`; the in-process Hardhat network only puts it in the message.
+    const reason =
+      typeof details.reason === "string"
+        ? details.reason
+        : /reverted with reason string '(.*)'/.exec(String(details.message))?.[1];
+    if (reason !== undefined) {
+      return new HonestHouseError("REVERTED", `HonestHouse reverted: ${reason}`, { reason, cause: error });
+    }
+    const message = typeof details.shortMessage === "string" ? details.shortMessage : String(details.message ?? error);
+    return new HonestHouseError(fallback, message, { cause: error });
+  }
+}
+
+type RawResult = Record<string | number, unknown>;
+
+// Contract results arrive as ethers Results or viem objects and arrays; both index by position.
+const pick = (result: object, key: string, index: number) => (result as RawResult)[key] ?? (result as RawResult)[index];
+
+export const parseRules = (raw: object): GameRules => ({
+  startingCoins: Number(pick(raw, "startingCoins", 0)),
+  roundReward: Number(pick(raw, "roundReward", 1)),
+  maxRounds: Number(pick(raw, "maxRounds", 2)),
+  splitTies: Boolean(pick(raw, "splitTies", 3)),
+  endRule: Number(pick(raw, "endRule", 4)),
+  turnTimeout: Number(pick(raw, "turnTimeout", 5)),
+  forfeitOnTimeout: Boolean(pick(raw, "forfeitOnTimeout", 6)),
+  seatCount: Number(pick(raw, "seatCount", 7)),
+  stakeToken: (pick(raw, "stakeToken", 8) ?? ZERO_ADDRESS) as string,
+  stakeAmount: BigInt((pick(raw, "stakeAmount", 9) ?? 0) as bigint),
+  coinToken: (pick(raw, "coinToken", 10) ?? ZERO_ADDRESS) as string,
+  revealAfterGame: Boolean(pick(raw, "revealAfterGame", 11)),
+  spectatorDelay: Number(pick(raw, "spectatorDelay", 12)),
+});
+
+export const parseSummary = (raw: object): GameSummary => ({
+  gameId: Number(pick(raw, "gameId", 0)),
+  players: [...(pick(raw, "players", 1) as string[])],
+  started: Boolean(pick(raw, "started", 2)),
+  finished: Boolean(pick(raw, "finished", 3)),
+  cancelled: Boolean(pick(raw, "cancelled", 4)),
+  round: Number(pick(raw, "round", 5)),
+  rules: parseRules(pick(raw, "rules", 6) as object),
+  settled: Boolean(pick(raw, "settled", 7)),
+  winner: pick(raw, "winner", 8) as string,
+  isPrivate: Boolean(pick(raw, "isPrivate", 9)),
+});
+
+export const parseGamePage = (raw: object): GamePage => ({
+  games: (pick(raw, "summaries", 0) as object[]).map(parseSummary),
+  total: Number(pick(raw, "total", 1)),
+});
+
+export const parseGameCounts = (raw: object): GameCounts => ({
+  open: Number(pick(raw, "open", 0)),
+  active: Number(pick(raw, "active", 1)),
+  finished: Number(pick(raw, "finished", 2)),
+});
+
+export const parsePlayerGamePage = (raw: object): PlayerGamePage => {
+  const awaiting = pick(raw, "awaitingSubmission", 1) as boolean[];
+  return {
+    games: (pick(raw, "summaries", 0) as object[]).map((game, i) => ({
+      ...parseSummary(game),
+      awaitingSubmission: awaiting[i],
+    })),
+    total: Number(pick(raw, "total", 2)),
+  };
+};
+
+export const parsePlayerState = (raw: object): PlayerState => ({
+  coins: pick(raw, "coins", 0) as string,
+  score: pick(raw, "score", 1) as string,
+  hasSubmitted: Boolean(pick(raw, "hasSubmitted", 2)),
+  seat: Number(pick(raw, "seat", 3)),
+  coinsClaimed: Boolean(pick(raw, "coinsClaimed", 4)),
+  lastCanSpend: pick(raw, "lastCanSpend", 5) as string,
+});
+
+export const parseRoundStatus = (raw: object): RoundStatus => ({
+  round: Number(pick(raw, "round", 0)),
+  started: Boolean(pick(raw, "started", 1)),
+  finished: Boolean(pick(raw, "finished", 2)),
+  submitted: (pick(raw, "submitted", 3) as boolean[]).map(Boolean),
+  contributions: [...(pick(raw, "contributions", 4) as string[])],
+  deadline: Number(pick(raw, "deadline", 5)),
+});
+
+export const parseGameResult = (raw: object): GameResult => ({
+  finished: Boolean(pick(raw, "finished", 0)),
+  settled: Boolean(pick(raw, "settled", 1)),
+  encryptedOutcome: pick(raw, "encryptedOutcome", 2) as string,
+  winner: pick(raw, "winner", 3) as string,
+  coinsExhausted: pick(raw, "coinsExhausted", 4) as string,
+});
+
+export const parseRoundRecord = (raw: object): RoundRecord => ({
+  round: Number(pick(raw, "round", 0)),
+  contributions: [...(pick(raw, "contributions", 1) as string[])],
+  won: [...(pick(raw, "won", 2) as string[])],
+  scores: [...(pick(raw, "scores", 3) as string[])],
+  revealed: Boolean(pick(raw, "revealed", 4)),
+  revealedContributions: (pick(raw, "revealedContributions", 5) as unknown[]).map(Number),
+});
+
+// The latest round whose scores spectators may unlock, 0 when none is old enough yet. Every resolved round opens up
+// once the game finishes.
+export const spectatorRound = (rules: GameRules, resolvedRounds: number, finished: boolean): number => {
+  if (rules.spectatorDelay === 0) return 0;
+  return finished ? resolvedRounds : Math.max(resolvedRounds - rules.spectatorDelay, 0);
+};
+
+export const parsePlayerStats = (raw: object): PlayerStats => ({
+  wins: Number(pick(raw, "wins", 0)),
+  losses: Number(pick(raw, "losses", 1)),
+  draws: Number(pick(raw, "draws", 2)),
+  rating: Number(pick(raw, "rating", 3)),
+});
+
+export const parseStanding = (raw: object): Standing => ({
+  player: pick(raw, "player", 0) as string,
+  stats: parsePlayerStats(pick(raw, "stats", 1) as object),
+});
+
+export const parseTournament = (raw: object): TournamentSummary => ({
+  tournamentId: Number(pick(raw, "tournamentId", 0)),
+  organizer: pick(raw, "organizer", 1) as string,
+  rules: parseRules(pick(raw, "rules", 2) as object),
+  maxPlayers: Number(pick(raw, "maxPlayers", 3)),
+  entryFee: BigInt(pick(raw, "entryFee", 4) as bigint),
+  joinWindow: Number(pick(raw, "joinWindow", 5)),
+  status: Number(pick(raw, "status", 6)),
+  entrants: [...(pick(raw, "entrants", 7) as string[])],
+  prize: BigInt(pick(raw, "prize", 8) as bigint),
+  champion: pick(raw, "champion", 9) as string,
+});
+
+export const parseBracketMatch = (raw: object): BracketMatch => {
+  const players = pick(raw, "players", 0) as string[];
+  return {
+    players: [players[0], players[1]],
+    gameId: Number(pick(raw, "gameId", 1)),
+    linkedAt: Number(pick(raw, "linkedAt", 2)),
+    winner: pick(raw, "winner", 3) as string,
+  };
+};
+
+// Splits a bracket, stored first round first, into its rounds. The last round holds the final alone.
+export const bracketRounds = (matches: BracketMatch[]): BracketMatch[][] => {
+  const rounds: BracketMatch[][] = [];
+  let start = 0;
+  for (let size = (matches.length + 1) / 2; size >= 1; size /= 2) {
+    rounds.push(matches.slice(start, start + size));
+    start += size;
+  }
+  return rounds;
+};
+
+export const parseSeries = (raw: object): Series => {
+  const score = pick(raw, "score", 1) as object;
+  const players = pick(score, "players", 0) as string[];
+  const wins = pick(score, "wins", 1) as unknown[];
+  return {
+    seriesId: Number(pick(raw, "seriesId", 0)),
+    players: [players[0], players[1]],
+    wins: [Number(wins[0]), Number(wins[1])],
+    draws: Number(pick(score, "draws", 2)),
+    rematchId: Number(pick(raw, "rematchId", 2)),
+  };
+};
+
+const DECRYPT_DURATION_DAYS = 7;
+// Credentials are renewed this long before they expire, so a decryption never lands right at the deadline.
+const RENEW_MARGIN_SECONDS = 60 * 60;
+
+type DecryptCredentials = {
+  account: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+};
+
+// Keeps one keypair and EIP-712 signature per account and reuses them until they expire, so the wallet signs once
+// per session instead of once per decryption. Clear values are cached by handle, since a handle never changes value.
+export class DecryptionSession {
+  readonly contractAddress: string;
+  readonly durationDays: number;
+  private readonly fhevm: FhevmInstance;
+  private credentials?: Promise<DecryptCredentials>;
+  private current?: DecryptCredentials;
+  private readonly cache = new Map<string, DecryptedValue>();
+
+  constructor(options: { fhevm: FhevmInstance; contractAddress: string; durationDays?: number }) {
+    this.fhevm = options.fhevm;
+    this.contractAddress = options.contractAddress;
+    this.durationDays = options.durationDays ?? DECRYPT_DURATION_DAYS;
+  }
+
+  // Whether decrypting for this account can go ahead without asking the wallet for a signature.
+  isActive(account: string): boolean {
+    return !!this.current && this.current.account === account && !this.expired(this.current);
+  }
+
+  // Decrypts every handle in one userDecrypt call, skipping cached and uninitialized ones (those decrypt to 0).
+  async decrypt(signer: Signer, handles: string[]): Promise<Record<string, DecryptedValue>> {
+    const account = await signer.getAddress();
+    const credentials = await this.credentialsFor(signer, account);
+    const pending = [...new Set(handles.filter((handle) => handle !== ZERO_HASH && !this.cache.has(handle)))];
+    if (pending.length > 0) {
+      const clear = await this.fhevm.userDecrypt(
+        pending.map((handle) => ({ handle, contractAddress: this.contractAddress })),
+        credentials.privateKey,
+        credentials.publicKey,
+        credentials.signature,
+        [this.contractAddress],
+        account,
+        credentials.startTimestamp,
+        this.durationDays,
+      );
+      for (const handle of pending) {
+        this.cache.set(handle, clear[handle]);
+      }
+    }
+    return Object.fromEntries(handles.map((handle) => [handle, handle === ZERO_HASH ? 0n : this.cache.get(handle)!]));
+  }
+
+  // Forgets the keypair, the signature and every cached value.
+  clear() {
+    this.credentials = undefined;
+    this.current = undefined;
+    this.cache.clear();
+  }
+
+  private expired(credentials: DecryptCredentials): boolean {
+    const expiry = credentials.startTimestamp + this.durationDays * 24 * 60 * 60 - RENEW_MARGIN_SECONDS;
+    return Math.floor(Date.now() / 1000) >= expiry;
+  }
+
+  // Concurrent callers share one pending signature request instead of each opening a wallet prompt.
+  private async credentialsFor(signer: Signer, account: string): Promise<DecryptCredentials> {
+    if (this.current && (this.current.account !== account || this.expired(this.current))) {
+      this.clear();
+    }
+    if (!this.credentials) {
+      const pending = this.sign(signer, account);
+      this.credentials = pending;
+      pending.then(
+        (credentials) => {
+          if (this.credentials === pending) {
+            this.current = credentials;
+          }
+        },
+        () => {
+          if (this.credentials === pending) {
+            this.credentials = undefined;
+          }
+        },
+      );
+    }
+    const credentials = await this.credentials;
+    if (credentials.account !== account) {
+      // The wallet switched accounts while another account's signature was pending.
+      this.clear();
+      return this.credentialsFor(signer, account);
+    }
+    return credentials;
+  }
+
+  private async sign(signer: Signer, account: string): Promise<DecryptCredentials> {
+    const keypair = this.fhevm.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = this.fhevm.createEIP712(
+      keypair.publicKey,
+      [this.contractAddress],
+      startTimestamp,
+      this.durationDays,
+    );
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+    return { account, ...keypair, signature: signature.replace("0x", ""), startTimestamp };
+  }
+}
+
+async function readContract(contract: Contract, method: string, args: unknown[]): Promise<object> {
+  try {
+    return await contract.getFunction(method).staticCall(...args);
+  } catch (error) {
+    throw HonestHouseError.from(error);
+  }
+}
+
+async function sendTransaction(
+  contract: Contract,
+  method: string,
+  args: unknown[],
+  value: bigint,
+): Promise<ContractTransactionReceipt> {
+  try {
+    const tx = await contract.getFunction(method)(...args, value > 0n ? { value } : {});
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new HonestHouseError("FAILED", `${method} was not mined`);
+    }
+    return receipt;
+  } catch (error) {
+    throw HonestHouseError.from(error);
+  }
+}
+
+function requireSigner(runner: ContractRunner, client: string): Signer {
+  const signer = runner as Partial<Signer>;
+  if (typeof signer.getAddress !== "function" || typeof signer.signTypedData !== "function") {
+    throw new HonestHouseError("NO_SIGNER", `${client} needs a signer for this call`);
+  }
+  return signer as Signer;
+}
+
+export class HonestHouseClient {
+  readonly address: string;
+  readonly contract: Contract;
+  private readonly runner: ContractRunner;
+  private readonly fhevm?: FhevmInstance;
+  private readonly session?: DecryptionSession;
+
+  // Pass a signer as runner for writes and decryption; a provider is enough for reads. Share a session between
+  // clients to keep reusing its signature, otherwise each client starts its own.
+  constructor(options: {
+    address: string;
+    abi: InterfaceAbi;
+    runner: ContractRunner;
+    fhevm?: FhevmInstance;
+    session?: DecryptionSession;
+  }) {
+    this.address = options.address;
+    this.runner = options.runner;
+    this.fhevm = options.fhevm;
+    this.session =
+      options.session ??
+      (options.fhevm ? new DecryptionSession({ fhevm: options.fhevm, contractAddress: options.address }) : undefined);
+    this.contract = new Contract(options.address, options.abi, options.runner);
+  }
+
+  async getGameSummary(gameId: number | bigint): Promise<GameSummary> {
+    return parseSummary(await this.read("getGameSummary", gameId));
+  }
+
+  // LISTING_OPEN and LISTING_ACTIVE reorder as games leave them, so their pages can skip or repeat a game.
+  async getGames(offset: number, limit: number, listing: number = LISTING_ALL): Promise<GamePage> {
+    return parseGamePage(await this.read("getGames", offset, limit, listing));
+  }
+
+  async getGameCounts(): Promise<GameCounts> {
+    return parseGameCounts(await this.read("getGameCounts"));
+  }
+
+  async getGamesByPlayer(player: string, offset: number, limit: number): Promise<PlayerGamePage> {
+    return parsePlayerGamePage(await this.read("getGamesByPlayer", player, offset, limit));
+  }
+
+  async getPlayerState(gameId: number | bigint, player: string): Promise<PlayerState> {
+    return parsePlayerState(await this.read("getPlayerState", gameId, player));
+  }
+
+  async getRoundStatus(gameId: number | bigint): Promise<RoundStatus> {
+    return parseRoundStatus(await this.read("getRoundStatus", gameId));
+  }
+
+  async getGameResult(gameId: number | bigint): Promise<GameResult> {
+    return parseGameResult(await this.read("getGameResult", gameId));
+  }
+
+  async getSettlementHook(gameId: number | bigint): Promise<string> {
+    return String(await this.read("getSettlementHook", gameId));
+  }
+
+  async getRoundHistory(gameId: number | bigint, fromRound: number, toRound: number): Promise<RoundRecord[]> {
+    const records = (await this.read("getRoundHistory", gameId, fromRound, toRound)) as object[];
+    return records.map(parseRoundRecord);
+  }
+
+  async getSeries(gameId: number | bigint): Promise<Series> {
+    return parseSeries(await this.read("getSeries", gameId));
+  }
+
+  // ETH stakes are sent along; token stakes and token-backed coins need their approvals in place beforehand.
+  async createGame(rules: GameRules, options: CreateGameOptions = {}): Promise<number> {
+    const receipt = options.private
+      ? await this.send("createPrivateGame", [rules, options.invitees ?? []], this.stakeValue(rules))
+      : await this.send("createGame", [rules], this.stakeValue(rules));
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "GameCreated") {
+        return Number(parsed.args.gameId);
+      }
+    }
+    throw new HonestHouseError("FAILED", "GameCreated event missing from the receipt");
+  }
+
+  // Takes a seat in the oldest waiting quick-match game with these rules, or opens one. ETH stakes are sent along.
+  async quickMatch(rules: GameRules, autoStart: boolean = false): Promise<QuickMatchResult> {
+    const receipt = await this.send("quickMatch", [rules, autoStart], this.stakeValue(rules));
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "GameCreated" || parsed?.name === "PlayerJoined") {
+        return { gameId: Number(parsed.args.gameId), created: parsed.name === "GameCreated" };
+      }
+    }
+    throw new HonestHouseError("FAILED", "quickMatch seated nobody");
+  }
+
+  // Pass the creator's signed invite to join a private game the caller is not allowlisted for.
+  async joinGame(gameId: number | bigint, invite?: string): Promise<ContractTransactionReceipt> {
+    const { rules } = await this.getGameSummary(gameId);
+    return invite
+      ? this.send("joinWithInvite", [gameId, invite], this.stakeValue(rules))
+      : this.send("joinGame", [gameId], this.stakeValue(rules));
+  }
+
+  // Proposes a rematch of a settled two-seat game and returns the new game, which the opponent confirms by joining.
+  // ETH stakes are sent along.
+  async rematch(gameId: number | bigint): Promise<number> {
+    const { rules } = await this.getGameSummary(gameId);
+    const receipt = await this.send("rematch", [gameId], this.stakeValue(rules));
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "RematchProposed") {
+        return Number(parsed.args.rematchId);
+      }
+    }
+    throw new HonestHouseError("FAILED", "RematchProposed event missing from the receipt");
+  }
+
+  async invitePlayers(gameId: number | bigint, invitees: string[]): Promise<ContractTransactionReceipt> {
+    return this.send("invitePlayers", [gameId, invitees]);
+  }
+
+  // The hook is a contract the house calls once the game settles; ZERO_ADDRESS clears it.
+  async setSettlementHook(gameId: number | bigint, hook: string): Promise<ContractTransactionReceipt> {
+    return this.send("setSettlementHook", [gameId, hook]);
+  }
+
+  // Signs an invite to a private game the signer created, for one player or for anyone holding it.
+  async signInvite(gameId: number | bigint, player: string = ZERO_ADDRESS): Promise<string> {
+    const signer = this.requireSigner();
+    const network = await signer.provider?.getNetwork();
+    if (!network) {
+      throw new HonestHouseError("NO_SIGNER", "Signing an invite needs a signer connected to a provider");
+    }
+    const domain = { name: "HonestHouse", version: "1", chainId: network.chainId, verifyingContract: this.address };
+    try {
+      return await signer.signTypedData(domain, INVITE_TYPES, { gameId, player });
+    } catch (error) {
+      throw HonestHouseError.from(error);
+    }
+  }
+
+  // Spectating needs the game to allow it; registering again is harmless.
+  async registerSpectator(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("registerSpectator", [gameId]);
+  }
+
+  // Lets the registered signer decrypt every seat's score after a round that spectators may see.
+  async unlockScores(gameId: number | bigint, round: number): Promise<ContractTransactionReceipt> {
+    return this.send("unlockScores", [gameId, round]);
+  }
+
+  // Whether an account may already decrypt every seat's score after a round.
+  async scoresUnlocked(gameId: number | bigint, round: number, account: string): Promise<boolean> {
+    return Boolean(await this.read("scoresUnlocked", gameId, round, account));
+  }
+
+  // Unlocks and decrypts every seat's score after the latest round spectators may see, sending unlockScores only when
+  // the signer cannot decrypt them yet. Returns round 0 and no scores while no round is visible yet.
+  async spectateScores(gameId: number | bigint): Promise<{ round: number; scores: bigint[] }> {
+    const [summary, history] = await Promise.all([this.getGameSummary(gameId), this.getRoundHistory(gameId, 1, 255)]);
+    const round = spectatorRound(summary.rules, history.length, summary.finished);
+    if (round === 0) {
+      return { round, scores: [] };
+    }
+    const account = await this.requireSigner().getAddress();
+    if (!(await this.scoresUnlocked(gameId, round, account))) {
+      await this.unlockScores(gameId, round);
+    }
+    const handles = history[round - 1].scores;
+    const clear = await this.userDecrypt(handles);
+    return { round, scores: handles.map((handle) => BigInt(clear[handle])) };
+  }
+
+  // Publicly decrypts the outcome of a finished game and records the winner, releasing the stakes.
+  async settleGame(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    const result = await this.getGameResult(gameId);
+    const decrypted = await this.publicDecrypt([result.encryptedOutcome]);
+    return this.send("settleGame", [gameId, decrypted.abiEncodedClearValues, decrypted.decryptionProof]);
+  }
+
+  // Publicly decrypts the "all balances are zero" flag of a coins-exhausted game and finishes the game when it is
+  // set. Returns false without sending anything while a seat still holds coins.
+  async confirmCoinsExhausted(gameId: number | bigint): Promise<boolean> {
+    const result = await this.getGameResult(gameId);
+    const decrypted = await this.publicDecrypt([result.coinsExhausted]);
+    if (!decrypted.clearValues[result.coinsExhausted]) {
+      return false;
+    }
+    await this.send("confirmCoinsExhausted", [gameId, decrypted.abiEncodedClearValues, decrypted.decryptionProof]);
+    return true;
+  }
+
+  async claimTimeout(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("claimTimeout", [gameId]);
+  }
+
+  async claimCoins(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("claimCoins", [gameId]);
+  }
+
+  // Stakes credited to an account, by token (ZERO_ADDRESS for ETH).
+  async getPendingWithdrawal(token: string, account: string): Promise<bigint> {
+    return BigInt((await this.read("pendingWithdrawals", token, account)) as unknown as bigint);
+  }
+
+  async withdraw(token: string = ZERO_ADDRESS): Promise<ContractTransactionReceipt> {
+    return this.send("withdraw", [token]);
+  }
+
+  // Opens and confirms every round of a finished game that is not revealed yet, in one range. Returns undefined
+  // when nothing is left to reveal.
+  async revealRounds(
+    gameId: number | bigint,
+  ): Promise<{ fromRound: number; toRound: number; receipt: ContractTransactionReceipt } | undefined> {
+    const pending = (await this.getRoundHistory(gameId, 1, 255)).filter((record) => !record.revealed);
+    if (pending.length === 0) {
+      return undefined;
+    }
+    const fromRound = pending[0].round;
+    const toRound = pending[pending.length - 1].round;
+
+    await this.send("openReveal", [gameId, fromRound, toRound]);
+    const decrypted = await this.publicDecrypt(pending.flatMap((record) => record.contributions));
+    const receipt = await this.send("confirmReveal", [
+      gameId,
+      fromRound,
+      toRound,
+      decrypted.abiEncodedClearValues,
+      decrypted.decryptionProof,
+    ]);
+    return { fromRound, toRound, receipt };
+  }
+
+  async leaveGame(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("leaveGame", [gameId]);
+  }
+
+  async startGame(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("startGame", [gameId]);
+  }
+
+  async submitCoins(gameId: number | bigint, amount: number): Promise<ContractTransactionReceipt> {
+    const fhevm = this.requireFhevm();
+    const account = await this.requireSigner().getAddress();
+    let encrypted;
+    try {
+      const input = fhevm.createEncryptedInput(this.address, account);
+      input.add32(amount);
+      encrypted = await input.encrypt();
+    } catch (error) {
+      throw HonestHouseError.from(error, "ENCRYPTION_FAILED");
+    }
+    return this.send("submitCoins", [gameId, encrypted.handles[0], encrypted.inputProof]);
+  }
+
+  // Decrypts handles the signer may read through the session, which only asks for a signature when it has none.
+  // Uninitialized handles decrypt to 0.
+  async userDecrypt(handles: string[]): Promise<Record<string, DecryptedValue>> {
+    const signer = this.requireSigner();
+    if (!this.session) {
+      throw new HonestHouseError("DECRYPTION_FAILED", "HonestHouseClient needs an FHEVM instance for this call");
+    }
+    try {
+      return await this.session.decrypt(signer, handles);
+    } catch (error) {
+      throw HonestHouseError.from(error, "DECRYPTION_FAILED");
+    }
+  }
+
+  async decryptBalance(gameId: number | bigint): Promise<{ coins: bigint; score: bigint }> {
+    const account = await this.requireSigner().getAddress();
+    const state = await this.getPlayerState(gameId, account);
+    const clear = await this.userDecrypt([state.coins, state.score]);
+    return { coins: BigInt(clear[state.coins]), score: BigInt(clear[state.score]) };
+  }
+
+  private async publicDecrypt(handles: string[]) {
+    if (!this.fhevm) {
+      throw new HonestHouseError("DECRYPTION_FAILED", "HonestHouseClient needs an FHEVM instance for this call");
+    }
+    try {
+      return await this.fhevm.publicDecrypt(handles);
+    } catch (error) {
+      throw HonestHouseError.from(error, "DECRYPTION_FAILED");
+    }
+  }
+
+  private stakeValue(rules: GameRules): bigint {
+    return rules.stakeToken === ZERO_ADDRESS ? rules.stakeAmount : 0n;
+  }
+
+  private async read(method: string, ...args: unknown[]): Promise<object> {
+    return readContract(this.contract, method, args);
+  }
+
+  private async send(method: string, args: unknown[], value: bigint = 0n): Promise<ContractTransactionReceipt> {
+    this.requireSigner();
+    return sendTransaction(this.contract, method, args, value);
+  }
+
+  private requireSigner(): Signer {
+    return requireSigner(this.runner, "HonestHouseClient");
+  }
+
+  private requireFhevm(): FhevmInstance {
+    if (!this.fhevm) {
+      throw new HonestHouseError("ENCRYPTION_FAILED", "HonestHouseClient needs an FHEVM instance for this call");
+    }
+    return this.fhevm;
+  }
+}
+
+// Public records and Elo ratings of the companion Ratings contract. Settled games count once they are recorded, which
+// anyone may do.
+export class RatingsClient {
+  readonly address: string;
+  readonly contract: Contract;
+  private readonly runner: ContractRunner;
+
+  constructor(options: { address: string; abi: InterfaceAbi; runner: ContractRunner }) {
+    this.address = options.address;
+    this.runner = options.runner;
+    this.contract = new Contract(options.address, options.abi, options.runner);
+  }
+
+  async getPlayerStats(player: string): Promise<PlayerStats> {
+    return parsePlayerStats(await readContract(this.contract, "getPlayerStats", [player]));
+  }
+
+  // The highest rated players, best first.
+  async getLeaderboard(limit: number): Promise<Standing[]> {
+    const standings = (await readContract(this.contract, "getLeaderboard", [limit])) as object[];
+    return standings.map(parseStanding);
+  }
+
+  async isRecorded(gameId: number | bigint): Promise<boolean> {
+    return Boolean(await readContract(this.contract, "recorded", [gameId]));
+  }
+
+  async recordGame(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    requireSigner(this.runner, "RatingsClient");
+    return sendTransaction(this.contract, "recordGame", [gameId], 0n);
+  }
+}
+
+// Single-elimination brackets of the companion Tournament contract. Each match is a private HonestHouse game that one
+// of the pair creates and links; reporting it once settled advances the winner.
+export class TournamentClient {
+  readonly address: string;
+  readonly contract: Contract;
+  private readonly runner: ContractRunner;
+
+  constructor(options: { address: string; abi: InterfaceAbi; runner: ContractRunner }) {
+    this.address = options.address;
+    this.runner = options.runner;
+    this.contract = new Contract(options.address, options.abi, options.runner);
+  }
+
+  async getTournament(tournamentId: number | bigint): Promise<TournamentSummary> {
+    return parseTournament(await readContract(this.contract, "getTournament", [tournamentId]));
+  }
+
+  // Every match, first round first; group them with bracketRounds.
+  async getBracket(tournamentId: number | bigint): Promise<BracketMatch[]> {
+    const matches = (await readContract(this.contract, "getBracket", [tournamentId])) as object[];
+    return matches.map(parseBracketMatch);
+  }
+
+  // The match a linked game decides, or undefined for games outside any tournament and games already reported.
+  async getMatchOf(gameId: number | bigint): Promise<MatchRef | undefined> {
+    const ref = await readContract(this.contract, "gameMatches", [gameId]);
+    const tournamentId = Number(pick(ref, "tournamentId", 0));
+    return tournamentId === 0 ? undefined : { tournamentId, matchIndex: Number(pick(ref, "matchIndex", 1)) };
+  }
+
+  async getPendingWithdrawal(account: string): Promise<bigint> {
+    return BigInt((await readContract(this.contract, "pendingWithdrawals", [account])) as unknown as bigint);
+  }
+
+  async createTournament(
+    rules: GameRules,
+    maxPlayers: number,
+    entryFee: bigint = 0n,
+    joinWindow: number = 0,
+  ): Promise<number> {
+    const receipt = await this.send("createTournament", [rules, maxPlayers, entryFee, joinWindow]);
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "TournamentCreated") {
+        return Number(parsed.args.tournamentId);
+      }
+    }
+    throw new HonestHouseError("FAILED", "TournamentCreated event missing from the receipt");
+  }
+
+  // The entry fee is sent along.
+  async register(tournamentId: number | bigint): Promise<ContractTransactionReceipt> {
+    const { entryFee } = await this.getTournament(tournamentId);
+    return this.send("register", [tournamentId], entryFee);
+  }
+
+  async startTournament(tournamentId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("startTournament", [tournamentId]);
+  }
+
+  async cancelTournament(tournamentId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("cancelTournament", [tournamentId]);
+  }
+
+  // Creates the private game for one of the signer's matches through the house client, invites the opponent, hooks
+  // the game to the tournament and links it. Returns the game, which the opponent joins to play.
+  async createMatchGame(house: HonestHouseClient, tournamentId: number | bigint, matchIndex: number): Promise<number> {
+    const account = await requireSigner(this.runner, "TournamentClient").getAddress();
+    const [{ rules }, bracket] = await Promise.all([this.getTournament(tournamentId), this.getBracket(tournamentId)]);
+    const players = bracket[matchIndex]?.players ?? [];
+    const opponent = players.find((player) => player.toLowerCase() !== account.toLowerCase());
+    if (!opponent || players.length < 2 || players.includes(ZERO_ADDRESS)) {
+      throw new HonestHouseError("FAILED", `Match ${matchIndex} has no opponent for ${account}`);
+    }
+    const gameId = await house.createGame(rules, { private: true, invitees: [opponent] });
+    await house.setSettlementHook(gameId, this.address);
+    await this.linkGame(tournamentId, matchIndex, gameId);
+    return gameId;
+  }
+
+  async linkGame(
+    tournamentId: number | bigint,
+    matchIndex: number,
+    gameId: number | bigint,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("linkGame", [tournamentId, matchIndex, gameId]);
+  }
+
+  async reportGame(gameId: number | bigint): Promise<ContractTransactionReceipt> {
+    return this.send("reportGame", [gameId]);
+  }
+
+  async claimWalkover(tournamentId: number | bigint, matchIndex: number): Promise<ContractTransactionReceipt> {
+    return this.send("claimWalkover", [tournamentId, matchIndex]);
+  }
+
+  async withdraw(): Promise<ContractTransactionReceipt> {
+    return this.send("withdraw", []);
+  }
+
+  private async send(method: string, args: unknown[], value: bigint = 0n): Promise<ContractTransactionReceipt> {
+    requireSigner(this.runner, "TournamentClient");
+    return sendTransaction(this.contract, method, args, value);
+  }
+}
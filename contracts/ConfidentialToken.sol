@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+
+/// @title Reference confidential token
+/// @notice Reference confidential token for local play and tests. Anyone can mint, so do not use it for real value.
+contract ConfidentialToken is IConfidentialToken, ZamaEthereumConfig {
+    /// @notice Token name
+    string public name;
+    /// @notice Token symbol
+    string public symbol;
+
+    mapping(address account => euint32 balance) private balances;
+    mapping(address holder => mapping(address operator => uint64 until)) private operatorUntil;
+
+    /// @notice Emitted when a holder grants or revokes an operator.
+    /// @param holder Owner of the balance
+    /// @param operator Account allowed to move it
+    /// @param until Last timestamp the operator may act, 0 when revoked
+    event OperatorSet(address indexed holder, address indexed operator, uint64 until);
+    /// @notice Emitted on every transfer, including the ones that moved an encrypted zero.
+    /// @param from Holder whose balance was spent
+    /// @param to Recipient of the transfer
+    /// @param amount Encrypted amount that actually moved
+    event ConfidentialTransfer(address indexed from, address indexed to, euint32 amount);
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    /// @notice Adds `amount` to the balance of `to`. Open to anyone.
+    /// @param to Account to credit
+    /// @param amount Clear amount to mint
+    function mint(address to, uint32 amount) external {
+        balances[to] = FHE.add(balances[to], amount);
+        FHE.allowThis(balances[to]);
+        FHE.allow(balances[to], to);
+    }
+
+    /// @notice Encrypted balance of `account`, which only the account can decrypt.
+    /// @param account Holder to look up
+    /// @return Encrypted balance handle
+    function confidentialBalanceOf(address account) external view returns (euint32) {
+        return balances[account];
+    }
+
+    /// @notice Lets `operator` move the caller's balance until the given timestamp.
+    /// @param operator Account to allow
+    /// @param until Last timestamp the operator may act; a past timestamp revokes it
+    function setOperator(address operator, uint64 until) external {
+        operatorUntil[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= operatorUntil[holder][spender];
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransfer(address to, euint32 amount) external returns (euint32) {
+        require(FHE.isSenderAllowed(amount), "Amount not allowed");
+        return _transfer(msg.sender, to, amount);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransferFrom(address from, address to, euint32 amount) external returns (euint32) {
+        require(isOperator(from, msg.sender), "Not an operator");
+        require(FHE.isSenderAllowed(amount), "Amount not allowed");
+        return _transfer(from, to, amount);
+    }
+
+    function _transfer(address from, address to, euint32 amount) internal returns (euint32 transferred) {
+        require(to != address(0), "Invalid recipient");
+
+        ebool covered = FHE.le(amount, balances[from]);
+        transferred = FHE.select(covered, amount, FHE.asEuint32(0));
+
+        balances[from] = FHE.sub(balances[from], transferred);
+        FHE.allowThis(balances[from]);
+        FHE.allow(balances[from], from);
+
+        balances[to] = FHE.add(balances[to], transferred);
+        FHE.allowThis(balances[to]);
+        FHE.allow(balances[to], to);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allow(transferred, msg.sender);
+
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+}
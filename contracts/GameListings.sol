@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {HonestHouse} from "./HonestHouse.sol";
+
+/// @title Game listings
+/// @notice Lifecycle listings, per-player indexes and quick-match queues of HonestHouse games. Linked into the house
+/// and reached through delegatecall, so it works on the house's storage.
+library GameListings {
+    /// @notice Moves a public game from one listing to another. `All` is never stored, so it stands for no listing: new
+    /// games come from it and cancelled games go to it. Private games never enter the listings, so swaps within a
+    /// listing only ever move public games.
+    /// @param games Games by id
+    /// @param listings Game ids by listing
+    /// @param game Game to move
+    /// @param from Listing the game leaves
+    /// @param to Listing the game enters
+    function move(
+        mapping(uint256 => HonestHouse.Game) storage games,
+        mapping(HonestHouse.GameListing => uint256[]) storage listings,
+        HonestHouse.Game storage game,
+        HonestHouse.GameListing from,
+        HonestHouse.GameListing to
+    ) public {
+        if (game.isPrivate) {
+            return;
+        }
+        if (from != HonestHouse.GameListing.All) {
+            _unlist(games, listings[from], game);
+        }
+        if (to != HonestHouse.GameListing.All) {
+            game.listingIndex = listings[to].length;
+            listings[to].push(game.id);
+        }
+    }
+
+    /// @notice Removes a seat's game from its player's games, moving the player's last game into the freed slot.
+    /// @param games Games by id
+    /// @param playerGames Game ids by player
+    /// @param player Seat leaving the game
+    function unindexPlayer(
+        mapping(uint256 => HonestHouse.Game) storage games,
+        mapping(address => uint256[]) storage playerGames,
+        HonestHouse.PlayerState storage player
+    ) public {
+        uint256[] storage ids = playerGames[player.account];
+        HonestHouse.Game storage moved = games[ids[ids.length - 1]];
+        for (uint8 i = 0; i < moved.rules.seatCount; i++) {
+            if (moved.players[i].account == player.account && moved.players[i].joined) {
+                moved.players[i].playerGameIndex = player.playerGameIndex;
+            }
+        }
+        ids[player.playerGameIndex] = moved.id;
+        ids.pop();
+    }
+
+    /// @notice Returns the oldest queued game with a free seat. The head of the queue only moves past games that
+    /// started or were cancelled; a full game stays queued, as it takes players again once someone leaves.
+    /// @param games Games by id
+    /// @param queue Quick-match queue of one set of rules
+    /// @return Id of the oldest waiting game, 0 when none is
+    function nextQuickGame(
+        mapping(uint256 => HonestHouse.Game) storage games,
+        HonestHouse.QuickQueue storage queue
+    ) public returns (uint256) {
+        for (uint256 i = queue.head; i < queue.gameIds.length; i++) {
+            HonestHouse.Game storage waiting = games[queue.gameIds[i]];
+            bool closed = waiting.cancelled || waiting.started;
+            if (!closed && waiting.joinedCount < waiting.rules.seatCount) {
+                return waiting.id;
+            }
+            if (closed && i == queue.head) {
+                queue.head++;
+            }
+        }
+        return 0;
+    }
+
+    // Swap and pop, so listings keep their order only until a game leaves one.
+    function _unlist(
+        mapping(uint256 => HonestHouse.Game) storage games,
+        uint256[] storage ids,
+        HonestHouse.Game storage game
+    ) private {
+        uint256 movedId = ids[ids.length - 1];
+        ids[game.listingIndex] = movedId;
+        games[movedId].listingIndex = game.listingIndex;
+        ids.pop();
+    }
+}
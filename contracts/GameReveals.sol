@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {HonestHouse} from "./HonestHouse.sol";
+
+/// @title Game reveals
+/// @notice Public reveal of the archived contributions of finished HonestHouse games that opted in. Linked into the
+/// house and reached through delegatecall, so it works on the house's storage and opens handles as the house.
+library GameReveals {
+    /// @notice Marks the contributions of a round range publicly decryptable.
+    /// @param game Finished game that opted into reveals
+    /// @param fromRound First round of the range
+    /// @param toRound Last round of the range
+    function open(HonestHouse.Game storage game, uint8 fromRound, uint8 toRound) public {
+        _requireRevealRange(game, fromRound, toRound);
+
+        uint256 count = uint256(toRound - fromRound + 1) * game.rules.seatCount;
+        for (uint256 k = 0; k < count; k++) {
+            FHE.makePubliclyDecryptable(_revealEntry(game, fromRound, k).contribution);
+        }
+    }
+
+    /// @notice Stores the checked public decryption of a round range, which must follow the rounds already revealed.
+    /// @param game Finished game that opted into reveals
+    /// @param fromRound First round of the range
+    /// @param toRound Last round of the range
+    /// @param abiEncodedCleartexts Contributions of the range, one 32-byte word each, rounds in order and seats within
+    /// each round
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function confirm(
+        HonestHouse.Game storage game,
+        uint8 fromRound,
+        uint8 toRound,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        _requireRevealRange(game, fromRound, toRound);
+        require(fromRound == game.revealedRounds + 1, "Reveal rounds in order");
+
+        bytes32[] memory handles = new bytes32[](uint256(toRound - fromRound + 1) * game.rules.seatCount);
+        for (uint256 k = 0; k < handles.length; k++) {
+            handles[k] = FHE.toBytes32(_revealEntry(game, fromRound, k).contribution);
+        }
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        // Cleartexts are ABI encoded as one 32-byte word per handle.
+        for (uint256 k = 0; k < handles.length; k++) {
+            uint32 contribution = uint32(uint256(bytes32(abiEncodedCleartexts[k * 32:(k + 1) * 32])));
+            _revealEntry(game, fromRound, k).revealedContribution = contribution;
+        }
+        game.revealedRounds = toRound;
+
+        if (toRound == game.resolvedRounds) {
+            emit HonestHouse.GameRevealed(game.id);
+        }
+    }
+
+    function _requireRevealRange(HonestHouse.Game storage game, uint8 fromRound, uint8 toRound) private view {
+        require(game.rules.revealAfterGame, "Reveal not enabled");
+        require(game.finished, "Game not finished");
+        require(fromRound >= 1 && fromRound <= toRound && toRound <= game.resolvedRounds, "Invalid round range");
+    }
+
+    // Walks a round range as one flat list: rounds in order, seats within each round.
+    function _revealEntry(
+        HonestHouse.Game storage game,
+        uint8 fromRound,
+        uint256 k
+    ) private view returns (HonestHouse.RoundEntry storage) {
+        uint8 seatCount = game.rules.seatCount;
+        return game.history[fromRound + uint8(k / seatCount)][uint8(k % seatCount)];
+    }
+}
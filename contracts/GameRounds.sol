@@ -0,0 +1,149 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {HonestHouse} from "./HonestHouse.sol";
+
+/// @title Game rounds
+/// @notice Encrypted round scoring and game outcomes for HonestHouse. Linked into the house and reached through
+/// delegatecall, so it works on the house's storage and computes, and grants access to, handles as the house.
+library GameRounds {
+    // Encrypted outcome values: 0 is a draw, otherwise the winning seat plus one.
+    uint8 internal constant OUTCOME_DRAW = 0;
+
+    /// @notice Opens the first round of a game that just started.
+    /// @param game Game that just started
+    function open(HonestHouse.Game storage game) public {
+        _resetContributions(game);
+        _openRound(game);
+    }
+
+    /// @notice Scores the round every seat has contributed to, archives it and opens the next one.
+    /// @param game Game whose seats have all contributed
+    /// @return lastRound True instead of opening a round when the game reached its round limit, or the last round a
+    /// uint8 counter holds under any end rule, which the house then finishes
+    function resolve(HonestHouse.Game storage game) public returns (bool lastRound) {
+        uint8 seatCount = game.rules.seatCount;
+        euint32 zeroValue = FHE.asEuint32(0);
+
+        euint32[] memory contributions = new euint32[](seatCount);
+        for (uint8 i = 0; i < seatCount; i++) {
+            contributions[i] = game.players[i].lastContribution;
+        }
+        (ebool[] memory onTop, ebool uniqueTop, euint8 topCount) = _topSeats(contributions);
+
+        // A single highest contribution takes the reward, tied top seats share it or get nothing.
+        euint32 tiedShare = zeroValue;
+        if (game.rules.splitTies) {
+            for (uint8 ties = 2; ties <= seatCount; ties++) {
+                euint32 share = FHE.asEuint32(game.rules.roundReward / ties);
+                tiedShare = FHE.select(FHE.eq(topCount, ties), share, tiedShare);
+            }
+        }
+        euint32 topReward = FHE.select(uniqueTop, FHE.asEuint32(game.rules.roundReward), tiedShare);
+
+        uint8 resolvedRound = game.currentRound;
+        for (uint8 i = 0; i < seatCount; i++) {
+            HonestHouse.PlayerState storage player = game.players[i];
+            player.score = FHE.add(player.score, FHE.select(onTop[i], topReward, zeroValue));
+            FHE.allowThis(player.score);
+            FHE.allow(player.score, player.account);
+
+            // The contribution handle already carries the contract and player ACL from submission or reset.
+            HonestHouse.RoundEntry storage entry = game.history[resolvedRound][i];
+            entry.contribution = contributions[i];
+            entry.won = game.rules.splitTies ? onTop[i] : FHE.and(onTop[i], uniqueTop);
+            entry.score = player.score;
+            FHE.allowThis(entry.won);
+            FHE.allow(entry.won, player.account);
+        }
+        game.resolvedRounds = resolvedRound;
+
+        _resetContributions(game);
+
+        emit HonestHouse.RoundResolved(game.id, resolvedRound);
+
+        if (
+            resolvedRound == type(uint8).max ||
+            (game.rules.endRule == HonestHouse.EndRule.RoundLimit && resolvedRound >= game.rules.maxRounds)
+        ) {
+            return true;
+        }
+
+        game.currentRound += 1;
+        _openRound(game);
+
+        if (game.rules.endRule == HonestHouse.EndRule.CoinsExhausted) {
+            ebool exhausted = FHE.eq(game.players[0].coins, 0);
+            for (uint8 i = 1; i < seatCount; i++) {
+                exhausted = FHE.and(exhausted, FHE.eq(game.players[i].coins, 0));
+            }
+            game.coinsExhausted = exhausted;
+            FHE.allowThis(game.coinsExhausted);
+            FHE.makePubliclyDecryptable(game.coinsExhausted);
+        }
+        return false;
+    }
+
+    /// @notice Computes the encrypted outcome of a game the house marked finished and makes it publicly decryptable,
+    /// so anyone can settle the game.
+    /// @param game Game the house marked finished
+    /// @param finalRound Last round of the game
+    function finish(HonestHouse.Game storage game, uint8 finalRound) public {
+        uint8 seatCount = game.rules.seatCount;
+        euint32[] memory scores = new euint32[](seatCount);
+        for (uint8 i = 0; i < seatCount; i++) {
+            scores[i] = game.players[i].score;
+        }
+        (ebool[] memory onTop, ebool uniqueTop, ) = _topSeats(scores);
+
+        euint8 leader = FHE.asEuint8(OUTCOME_DRAW);
+        for (uint8 i = 0; i < seatCount; i++) {
+            leader = FHE.select(onTop[i], FHE.asEuint8(i + 1), leader);
+        }
+
+        game.outcome = FHE.select(uniqueTop, leader, FHE.asEuint8(OUTCOME_DRAW));
+        game.currentRound = finalRound;
+        game.roundDeadline = 0;
+
+        FHE.allowThis(game.outcome);
+        FHE.makePubliclyDecryptable(game.outcome);
+
+        emit HonestHouse.GameFinished(game.id, finalRound, game.outcome);
+    }
+
+    function _topSeats(
+        euint32[] memory values
+    ) private returns (ebool[] memory onTop, ebool uniqueTop, euint8 topCount) {
+        euint32 highest = values[0];
+        for (uint256 i = 1; i < values.length; i++) {
+            highest = FHE.select(FHE.gt(values[i], highest), values[i], highest);
+        }
+
+        onTop = new ebool[](values.length);
+        topCount = FHE.asEuint8(0);
+        for (uint256 i = 0; i < values.length; i++) {
+            onTop[i] = FHE.eq(values[i], highest);
+            topCount = FHE.add(topCount, FHE.asEuint8(onTop[i]));
+        }
+        uniqueTop = FHE.eq(topCount, 1);
+    }
+
+    function _resetContributions(HonestHouse.Game storage game) private {
+        euint32 zeroValue = FHE.asEuint32(0);
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            HonestHouse.PlayerState storage player = game.players[i];
+            player.lastContribution = zeroValue;
+            player.hasSubmitted = false;
+            FHE.allowThis(player.lastContribution);
+            FHE.allow(player.lastContribution, player.account);
+        }
+        game.submittedCount = 0;
+    }
+
+    function _openRound(HonestHouse.Game storage game) private {
+        if (game.rules.turnTimeout != 0) {
+            game.roundDeadline = uint64(block.timestamp) + game.rules.turnTimeout;
+        }
+    }
+}
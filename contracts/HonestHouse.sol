@@ -1,10 +1,69 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, ebool, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint8, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+import {ISettlementHook} from "./ISettlementHook.sol";
+import {GameListings} from "./GameListings.sol";
+import {GameReveals} from "./GameReveals.sol";
+import {GameRounds} from "./GameRounds.sol";
+import {Rematches} from "./Rematches.sol";
+import {Spectators} from "./Spectators.sol";
 
+/// @title ERC-20 transfers
+/// @notice The two ERC-20 calls the house makes to collect and pay out token stakes.
+interface IERC20 {
+    /// @notice Sends tokens from the caller.
+    /// @param to Recipient
+    /// @param amount Tokens to send
+    /// @return Whether the transfer succeeded
+    function transfer(address to, uint256 amount) external returns (bool);
+
+    /// @notice Sends tokens from an account that approved the caller.
+    /// @param from Account whose tokens move
+    /// @param to Recipient
+    /// @param amount Tokens to send
+    /// @return Whether the transfer succeeded
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/// @title HonestHouse
+/// @notice Encrypted contribution games for two to eight seats. Each round every seat submits an encrypted amount of
+/// its coins, the highest contribution earns the round reward, and the best score wins the game. Coins, contributions
+/// and scores stay encrypted; stakes, token-backed coins, private games, rematches, spectators and public reveals are
+/// opt-in rules.
 contract HonestHouse is ZamaEthereumConfig {
+    enum EndRule {
+        RoundLimit,
+        CoinsExhausted
+    }
+
+    enum GameListing {
+        All,
+        Open,
+        Active,
+        Finished
+    }
+
+    struct GameRules {
+        uint32 startingCoins;
+        uint32 roundReward;
+        uint8 maxRounds;
+        bool splitTies;
+        EndRule endRule;
+        uint32 turnTimeout;
+        bool forfeitOnTimeout;
+        uint8 seatCount;
+        address stakeToken;
+        uint256 stakeAmount;
+        address coinToken;
+        bool revealAfterGame;
+        // Rounds a round's scores stay hidden from spectators, 0 for no spectators. They see every score once the
+        // game finishes, so 255 keeps scores hidden until then.
+        uint8 spectatorDelay;
+    }
+
     struct PlayerState {
         address account;
         euint32 coins;
@@ -12,95 +71,374 @@ contract HonestHouse is ZamaEthereumConfig {
         euint32 lastContribution;
         bool hasSubmitted;
         bool joined;
+        euint32 deposit;
+        bool coinsClaimed;
+        ebool lastCanSpend;
+        uint256 playerGameIndex;
+    }
+
+    struct RoundEntry {
+        euint32 contribution;
+        ebool won;
+        // Running score after the round.
+        euint32 score;
+        uint32 revealedContribution;
     }
 
     struct Game {
         uint256 id;
-        PlayerState[2] players;
+        mapping(uint8 seat => PlayerState player) players;
+        uint8 joinedCount;
+        uint8 submittedCount;
         bool started;
         bool finished;
+        bool cancelled;
         uint8 currentRound;
+        GameRules rules;
+        uint64 roundDeadline;
+        ebool coinsExhausted;
+        euint8 outcome;
+        bool settled;
+        address winner;
+        uint8 resolvedRounds;
+        mapping(uint8 round => mapping(uint8 seat => RoundEntry entry)) history;
+        uint8 revealedRounds;
+        uint256 listingIndex;
+        bool autoStart;
+        bool isPrivate;
+        // Addresses allowed to take a seat in a private game.
+        mapping(address account => bool allowed) invited;
+        // First game of the rematch chain this game belongs to, 0 outside of one.
+        uint256 seriesId;
+        // Latest rematch proposed from this game.
+        uint256 rematchId;
+        mapping(address account => bool registered) spectators;
+        // Contract told when the game settles, address(0) for none.
+        address settlementHook;
+    }
+
+    // Running score of a rematch chain, credited as each of its games settles.
+    struct Series {
+        address[2] players;
+        uint32[2] wins;
+        uint32 draws;
+    }
+
+    // Quick-match games waiting for players, oldest first. Games before `head` no longer take players.
+    struct QuickQueue {
+        uint256[] gameIds;
+        uint256 head;
+    }
+
+    struct RoundRecord {
+        uint8 round;
+        euint32[] contributions;
+        ebool[] won;
+        euint32[] scores;
+        bool revealed;
+        uint32[] revealedContributions;
     }
 
     struct GameSummary {
         uint256 gameId;
-        address[2] players;
+        address[] players;
         bool started;
         bool finished;
+        bool cancelled;
         uint8 round;
+        GameRules rules;
+        bool settled;
+        address winner;
+        bool isPrivate;
     }
 
+    /// @notice Id the next game gets
     uint256 public nextGameId = 1;
-    mapping(uint256 => Game) private games;
+    mapping(uint256 gameId => Game game) private games;
     uint256[] private gameIds;
+    // Ids per lifecycle stage; cancelled games leave the open listing without joining another one.
+    mapping(GameListing listing => uint256[] ids) private listings;
+    // Ids of the games each address holds a seat in, in the order they were joined.
+    mapping(address player => uint256[] ids) private playerGames;
+    // Quick-match queues by hash of the requested rules and auto-start flag.
+    mapping(bytes32 rulesHash => QuickQueue queue) private quickQueues;
+    // Rematch chains by the id of their first game.
+    mapping(uint256 seriesId => Series score) private series;
+
+    /// @notice Released stakes waiting to be withdrawn, by token (address(0) for ETH) and account
+    mapping(address token => mapping(address account => uint256 amount)) public pendingWithdrawals;
 
+    /// @notice Emitted when a game is created, with its creator in seat 1.
+    /// @param gameId New game
+    /// @param creator Account that created it
     event GameCreated(uint256 indexed gameId, address indexed creator);
+    /// @notice Emitted when a player takes a seat.
+    /// @param gameId Game joined
+    /// @param player Seated account
     event PlayerJoined(uint256 indexed gameId, address indexed player);
+    /// @notice Emitted when a player other than the creator leaves a game before it starts.
+    /// @param gameId Game left
+    /// @param player Account that left
+    event PlayerLeft(uint256 indexed gameId, address indexed player);
+    /// @notice Emitted when the creator leaves, which cancels the game.
+    /// @param gameId Cancelled game
+    event GameCancelled(uint256 indexed gameId);
+    /// @notice Emitted when a game starts and its first round opens.
+    /// @param gameId Started game
     event GameStarted(uint256 indexed gameId);
+    /// @notice Emitted for every submission.
+    /// @param gameId Game played
+    /// @param player Submitting account
+    /// @param encryptedAmount Coins actually spent, an encrypted zero when the bid was not covered
     event CoinsSubmitted(uint256 indexed gameId, address indexed player, euint32 encryptedAmount);
+    /// @notice Emitted when every seat has contributed to a round and it is scored.
+    /// @param gameId Game played
+    /// @param round Scored round
     event RoundResolved(uint256 indexed gameId, uint8 round);
+    /// @notice Emitted when a game ends.
+    /// @param gameId Finished game
+    /// @param finalRound Last round played
+    /// @param encryptedOutcome Publicly decryptable outcome: 0 for a draw, otherwise the winning seat plus one
+    event GameFinished(uint256 indexed gameId, uint8 finalRound, euint8 encryptedOutcome);
+    /// @notice Emitted when a game's outcome is public and its stakes are released.
+    /// @param gameId Settled game
+    /// @param winner Winning account, address(0) for a draw
+    /// @param draw Whether the game was drawn
+    event GameSettled(uint256 indexed gameId, address indexed winner, bool draw);
+    /// @notice Emitted when a player claims a round whose deadline passed.
+    /// @param gameId Game played
+    /// @param claimant Account that claimed
+    /// @param round Round that timed out
+    /// @param forfeited Whether the absent seats forfeited the game rather than the round
+    event TimeoutClaimed(uint256 indexed gameId, address indexed claimant, uint8 round, bool forfeited);
+    /// @notice Emitted when an account withdraws released stakes.
+    /// @param account Withdrawing account
+    /// @param token Stake token, address(0) for ETH
+    /// @param amount Amount sent
+    event StakeWithdrawn(address indexed account, address indexed token, uint256 amount);
+    /// @notice Emitted when a player takes their token-backed coins out of a finished or cancelled game.
+    /// @param gameId Game the coins were in
+    /// @param player Claiming account
+    event CoinsClaimed(uint256 indexed gameId, address indexed player);
+    /// @notice Emitted when the last resolved round of a game has been publicly revealed.
+    /// @param gameId Revealed game
+    event GameRevealed(uint256 indexed gameId);
+    /// @notice Emitted when an account is added to a private game's allowlist.
+    /// @param gameId Private game
+    /// @param player Invited account
+    event PlayerInvited(uint256 indexed gameId, address indexed player);
+    /// @notice Emitted when a player proposes a rematch of a settled game.
+    /// @param gameId Settled game
+    /// @param rematchId Private game the opponent is invited to
+    /// @param player Proposing account
+    event RematchProposed(uint256 indexed gameId, uint256 indexed rematchId, address indexed player);
+    /// @notice Emitted when an account registers to spectate a game.
+    /// @param gameId Watched game
+    /// @param spectator Registered account
+    event SpectatorRegistered(uint256 indexed gameId, address indexed spectator);
 
-    uint32 private constant INITIAL_COINS = 100;
-    uint32 private constant ROUND_REWARD = 10;
+    uint8 private constant MIN_SEATS = 2;
+    uint8 private constant MAX_SEATS = 8;
 
-    function createGame() external returns (uint256 gameId) {
-        gameId = nextGameId++;
-        Game storage game = games[gameId];
-        game.id = gameId;
-        game.currentRound = 1;
+    // EIP-712 invites to private games, signed by the game's creator. Inviting address(0) admits anyone holding it.
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 private constant INVITE_TYPEHASH = keccak256("Invite(uint256 gameId,address player)");
+    // Upper bound for the s value of a signature, rejecting the malleable high-s twin of every signature.
+    uint256 private constant MAX_SIGNATURE_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+    // Gas a settlement hook gets. Settling needs enough gas left to pass it on in full, so nobody can settle with too
+    // little gas on purpose to make the hook fail.
+    uint256 private constant SETTLEMENT_HOOK_GAS = 300_000;
 
-        _seatPlayer(game.players[0], msg.sender);
+    // Set while an entry point that calls a stake or coin token runs. Games pick their own tokens, so a hostile one
+    // must not re-enter the house and act on a half-updated seat.
+    bool private locked;
 
-        gameIds.push(gameId);
+    modifier nonReentrant() {
+        require(!locked, "Reentrant call");
+        locked = true;
+        _;
+        locked = false;
+    }
 
-        emit GameCreated(gameId, msg.sender);
+    /// @notice Creates a public game and seats the caller, who pays the stake when the rules ask for one.
+    /// @param rules Rules of the game
+    /// @return gameId New game
+    function createGame(GameRules calldata rules) external payable nonReentrant returns (uint256 gameId) {
+        gameId = _createGame(rules, false);
+        _collectStake(games[gameId]);
     }
 
-    function joinGame(uint256 gameId) external {
-        Game storage game = games[gameId];
-        require(game.id != 0, "Game not found");
+    /// @notice Creates a private game and seats the caller. Private games stay out of every public listing and only
+    /// seat invited players: the creator's allowlist, extended with invitePlayers, or whoever presents an invite the
+    /// creator signed.
+    /// @param rules Rules of the game
+    /// @param invitees Accounts allowed to join
+    /// @return gameId New game
+    function createPrivateGame(
+        GameRules calldata rules,
+        address[] calldata invitees
+    ) external payable nonReentrant returns (uint256 gameId) {
+        gameId = _createGame(rules, true);
+        _invite(games[gameId], invitees);
+        _collectStake(games[gameId]);
+    }
+
+    /// @notice Adds accounts to the allowlist of a private game the caller created and that has not started.
+    /// @param gameId Private game
+    /// @param invitees Accounts allowed to join
+    function invitePlayers(uint256 gameId, address[] calldata invitees) external {
+        Game storage game = _game(gameId);
+        require(game.isPrivate, "Game not private");
+        require(game.players[0].account == msg.sender, "Not game creator");
+        require(!game.cancelled, "Game cancelled");
+        require(!game.started, "Game already started");
+
+        _invite(game, invitees);
+    }
+
+    /// @notice Names a contract the house calls once the game settles, such as the tournament the game decides a match
+    /// of. Only the creator sets it, before the game starts. A hook that reverts does not hold up settlement.
+    /// @param gameId Game the caller created
+    /// @param hook Contract to notify, address(0) for none
+    function setSettlementHook(uint256 gameId, address hook) external {
+        Game storage game = _game(gameId);
+        require(game.players[0].account == msg.sender, "Not game creator");
+        require(!game.cancelled, "Game cancelled");
         require(!game.started, "Game already started");
-        require(!game.finished, "Game finished");
-        require(!_isPlayer(game, msg.sender), "Already in game");
-        require(!game.players[1].joined, "Game full");
 
-        _seatPlayer(game.players[1], msg.sender);
+        game.settlementHook = hook;
+    }
 
-        emit PlayerJoined(gameId, msg.sender);
+    /// @notice Seats the caller in the first free seat of an open game, collecting the stake and coins it asks for.
+    /// @param gameId Game to join
+    function joinGame(uint256 gameId) external payable nonReentrant {
+        _joinGame(games[gameId]);
     }
 
-    function startGame(uint256 gameId) external {
-        Game storage game = games[gameId];
-        require(game.id != 0, "Game not found");
+    /// @notice Joins a private game with the creator's EIP-712 signature over Invite(gameId, player), where player is
+    /// the caller or address(0) for an invite anyone may use.
+    /// @param gameId Private game
+    /// @param signature Creator's signature of the invite
+    function joinWithInvite(uint256 gameId, bytes calldata signature) external payable nonReentrant {
+        Game storage game = _game(gameId);
+        require(game.isPrivate, "Game not private");
+        address creator = game.players[0].account;
+        require(
+            _inviteSigner(gameId, msg.sender, signature) == creator ||
+                _inviteSigner(gameId, address(0), signature) == creator,
+            "Invalid invite"
+        );
+
+        game.invited[msg.sender] = true;
+        _joinGame(game);
+    }
+
+    /// @notice Seats the caller in the oldest open quick-match game with exactly these rules and auto-start flag, or
+    /// creates one when none is waiting. Auto-start games start as soon as their last seat fills.
+    /// @param rules Rules of the game
+    /// @param autoStart Whether the game starts once its last seat fills
+    /// @return gameId Game joined or created
+    function quickMatch(
+        GameRules calldata rules,
+        bool autoStart
+    ) external payable nonReentrant returns (uint256 gameId) {
+        QuickQueue storage queue = quickQueues[keccak256(abi.encode(rules, autoStart))];
+        gameId = GameListings.nextQuickGame(games, queue);
+        if (gameId != 0) {
+            _joinGame(games[gameId]);
+            return gameId;
+        }
+
+        gameId = _createGame(rules, false);
+        games[gameId].autoStart = autoStart;
+        queue.gameIds.push(gameId);
+        _collectStake(games[gameId]);
+    }
+
+    /// @notice Proposes a rematch of a settled two-seat game: a private game with the same rules that only the
+    /// opponent may join, starting as soon as they confirm with joinGame. A new proposal is only possible once the last
+    /// one is cancelled.
+    /// @param gameId Settled game the caller played
+    /// @return rematchId Private game created for the rematch
+    function rematch(uint256 gameId) external payable nonReentrant returns (uint256 rematchId) {
+        rematchId = _createGame(_game(gameId).rules, true);
+        Rematches.propose(games, series, gameId, rematchId);
+        _collectStake(games[rematchId]);
+    }
+
+    /// @notice Registers the caller as a spectator of a game that allows them. Seated players are turned away here
+    /// and again when unlocking, as they could join after registering, so nobody sees an opponent's running score
+    /// mid-game.
+    /// @param gameId Game to watch
+    function registerSpectator(uint256 gameId) external {
+        Spectators.register(_unseatedGame(gameId));
+    }
+
+    /// @notice Lets a registered spectator decrypt every seat's score after a round, once the round is the game's
+    /// spectator delay old or the game is finished.
+    /// @param gameId Watched game
+    /// @param round Resolved round whose scores to unlock
+    function unlockScores(uint256 gameId, uint8 round) external {
+        Spectators.unlockScores(_unseatedGame(gameId), round);
+    }
+
+    /// @notice Leaves a game that has not started. The stake becomes withdrawable and token-backed coins go back to
+    /// the player; the creator leaving cancels the game and releases every seat's stake.
+    /// @param gameId Game the caller sits in
+    function leaveGame(uint256 gameId) external nonReentrant {
+        Game storage game = _game(gameId);
+        require(!game.cancelled, "Game cancelled");
         require(!game.started, "Game already started");
-        require(!game.finished, "Game finished");
-        require(game.players[0].joined && game.players[1].joined, "Need two players");
-        require(msg.sender == game.players[0].account || msg.sender == game.players[1].account, "Not a player");
 
-        game.started = true;
-        game.finished = false;
-        game.currentRound = 1;
-        game.players[0].hasSubmitted = false;
-        game.players[1].hasSubmitted = false;
-        game.players[0].lastContribution = FHE.asEuint32(0);
-        game.players[1].lastContribution = FHE.asEuint32(0);
+        uint8 seat = _requirePlayerIndex(game, msg.sender);
+        if (seat == 0) {
+            game.cancelled = true;
+            GameListings.move(games, listings, game, GameListing.Open, GameListing.All);
+            _releaseStakes(game);
+            emit GameCancelled(gameId);
+            return;
+        }
+
+        // Free the seat before the coin token is called.
+        euint32 deposit = game.players[seat].deposit;
+        GameListings.unindexPlayer(games, playerGames, game.players[seat]);
+        delete game.players[seat];
+        game.joinedCount--;
+        pendingWithdrawals[game.rules.stakeToken][msg.sender] += game.rules.stakeAmount;
+        if (game.rules.coinToken != address(0)) {
+            _sendCoins(game, msg.sender, deposit);
+        }
+        emit PlayerLeft(gameId, msg.sender);
+    }
 
-        FHE.allowThis(game.players[0].lastContribution);
-        FHE.allowThis(game.players[1].lastContribution);
-        FHE.allow(game.players[0].lastContribution, game.players[0].account);
-        FHE.allow(game.players[1].lastContribution, game.players[1].account);
+    /// @notice Starts a game whose seats are all filled. Any seated player may start it.
+    /// @param gameId Game the caller sits in
+    function startGame(uint256 gameId) external {
+        Game storage game = _game(gameId);
+        require(!game.cancelled, "Game cancelled");
+        require(!game.started, "Game already started");
+        require(!game.finished, "Game finished");
+        require(game.joinedCount == game.rules.seatCount, "Seats not filled");
+        _requirePlayerIndex(game, msg.sender);
 
-        emit GameStarted(gameId);
+        _startGame(game);
     }
 
+    /// @notice Submits the caller's encrypted contribution to the current round. A bid above the caller's coins
+    /// spends nothing. The last submission of a round scores it.
+    /// @param gameId Started game the caller sits in
+    /// @param encryptedCoins Encrypted amount to contribute
+    /// @param inputProof Proof for the encrypted input
     function submitCoins(uint256 gameId, externalEuint32 encryptedCoins, bytes calldata inputProof) external {
-        Game storage game = games[gameId];
-        require(game.id != 0, "Game not found");
+        Game storage game = _game(gameId);
         require(game.started, "Game not started");
         require(!game.finished, "Game finished");
 
-        uint256 playerIndex = _requirePlayerIndex(game, msg.sender);
+        uint8 playerIndex = _requirePlayerIndex(game, msg.sender);
         PlayerState storage player = game.players[playerIndex];
+        require(!player.hasSubmitted, "Already submitted");
 
         euint32 requested = FHE.fromExternal(encryptedCoins, inputProof);
         ebool canSpend = FHE.le(requested, player.coins);
@@ -108,125 +446,556 @@ contract HonestHouse is ZamaEthereumConfig {
 
         player.coins = FHE.sub(player.coins, spendAmount);
         player.lastContribution = spendAmount;
+        player.lastCanSpend = canSpend;
         player.hasSubmitted = true;
+        game.submittedCount++;
 
         FHE.allowThis(player.coins);
         FHE.allow(player.coins, player.account);
         FHE.allowThis(player.lastContribution);
         FHE.allow(player.lastContribution, player.account);
+        // Only the submitting player learns whether their bid was covered or replaced with zero.
+        FHE.allowThis(player.lastCanSpend);
+        FHE.allow(player.lastCanSpend, player.account);
 
         emit CoinsSubmitted(gameId, player.account, spendAmount);
 
-        if (game.players[0].hasSubmitted && game.players[1].hasSubmitted) {
+        if (game.submittedCount == game.rules.seatCount) {
             _resolveRound(game);
         }
     }
 
+    /// @notice Claims a round whose deadline passed, for a player who submitted. Depending on the rules the absent
+    /// seats forfeit the game or the round resolves with their contributions at zero.
+    /// @param gameId Started game the caller sits in
+    function claimTimeout(uint256 gameId) external nonReentrant {
+        Game storage game = _game(gameId);
+        require(game.started, "Game not started");
+        require(!game.finished, "Game finished");
+        require(game.roundDeadline != 0, "No turn timeout");
+        require(block.timestamp > game.roundDeadline, "Deadline not reached");
+
+        uint8 claimantIndex = _requirePlayerIndex(game, msg.sender);
+        require(game.players[claimantIndex].hasSubmitted, "Submit before claiming");
+
+        uint8 round = game.currentRound;
+        emit TimeoutClaimed(gameId, msg.sender, round, game.rules.forfeitOnTimeout);
+
+        if (game.rules.forfeitOnTimeout) {
+            // A lone waiting player takes the game; several waiting players share a draw.
+            address winner = game.submittedCount == 1 ? msg.sender : address(0);
+            // The result is public already, so the outcome readers decrypt for every finished game encrypts it as is.
+            game.outcome = FHE.asEuint8(winner == address(0) ? GameRounds.OUTCOME_DRAW : claimantIndex + 1);
+            FHE.allowThis(game.outcome);
+            FHE.makePubliclyDecryptable(game.outcome);
+            _markFinished(game);
+            game.settled = true;
+            game.winner = winner;
+            game.roundDeadline = 0;
+            _releaseStakes(game);
+            _recordSeriesResult(game);
+
+            emit GameFinished(gameId, round, game.outcome);
+            emit GameSettled(gameId, winner, winner == address(0));
+            _notifySettled(game);
+            return;
+        }
+
+        // Absent players' contributions were reset to an encrypted zero when the round opened.
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            game.players[i].hasSubmitted = true;
+        }
+        game.submittedCount = game.rules.seatCount;
+        _resolveRound(game);
+    }
+
+    /// @notice Public state of a game.
+    /// @param gameId Game to look up
+    /// @return summary Seats, rules, lifecycle and result
     function getGameSummary(uint256 gameId) external view returns (GameSummary memory summary) {
-        Game storage game = games[gameId];
-        require(game.id != 0, "Game not found");
+        Game storage game = _game(gameId);
 
-        summary = GameSummary({
-            gameId: game.id,
-            players: [game.players[0].account, game.players[1].account],
-            started: game.started,
-            finished: game.finished,
-            round: game.currentRound
-        });
+        summary = _summarize(game);
     }
 
-    function getAllGames() external view returns (GameSummary[] memory summaries) {
-        summaries = new GameSummary[](gameIds.length);
-        for (uint256 i = 0; i < gameIds.length; i++) {
-            Game storage game = games[gameIds[i]];
-            summaries[i] = GameSummary({
-                gameId: game.id,
-                players: [game.players[0].account, game.players[1].account],
-                started: game.started,
-                finished: game.finished,
-                round: game.currentRound
-            });
+    /// @notice A page of a game listing. The open and active listings fill a leaving game's slot with their last
+    /// game, so their order changes as games move on and a page taken between moves can skip or repeat a game. All and
+    /// Finished only ever append.
+    /// @param offset Position of the first game
+    /// @param limit Most games to return
+    /// @param listing Listing to page through
+    /// @return summaries Games of the page
+    /// @return total Games in the listing
+    function getGames(
+        uint256 offset,
+        uint256 limit,
+        GameListing listing
+    ) external view returns (GameSummary[] memory summaries, uint256 total) {
+        uint256[] storage ids = listing == GameListing.All ? gameIds : listings[listing];
+        summaries = _pageSummaries(ids, offset, limit);
+        total = ids.length;
+    }
+
+    /// @notice A page of the games an address holds a seat in, in the order they were joined.
+    /// @param player Address to look up
+    /// @param offset Position of the first game
+    /// @param limit Most games to return
+    /// @return summaries Games of the page
+    /// @return awaitingSubmission Whether each game waits on the player's submission
+    /// @return total Games the player sits in
+    function getGamesByPlayer(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (GameSummary[] memory summaries, bool[] memory awaitingSubmission, uint256 total) {
+        uint256[] storage ids = playerGames[player];
+        summaries = _pageSummaries(ids, offset, limit);
+        total = ids.length;
+
+        awaitingSubmission = new bool[](summaries.length);
+        for (uint256 i = 0; i < summaries.length; i++) {
+            Game storage game = games[ids[offset + i]];
+            awaitingSubmission[i] =
+                game.started &&
+                !game.finished &&
+                !game.players[_playerIndex(game, player)].hasSubmitted;
         }
     }
 
-    function getPlayerState(uint256 gameId, address player)
+    /// @notice The series a game belongs to and the latest rematch proposed from it.
+    /// @param gameId Game to look up
+    /// @return seriesId First game of the series, 0 outside of one
+    /// @return score Wins and draws of the series, empty outside of one
+    /// @return rematchId Latest rematch proposed from the game, 0 for none
+    function getSeries(
+        uint256 gameId
+    ) external view returns (uint256 seriesId, Series memory score, uint256 rematchId) {
+        Game storage game = _game(gameId);
+
+        seriesId = game.seriesId;
+        score = series[seriesId];
+        rematchId = game.rematchId;
+    }
+
+    /// @notice Whether an address is on a private game's allowlist. Holders of a signed invite are not listed.
+    /// @param gameId Game to look up
+    /// @param account Address to check
+    /// @return Whether the address is listed
+    function isInvited(uint256 gameId, address account) external view returns (bool) {
+        return _game(gameId).invited[account];
+    }
+
+    /// @notice Contract the house notifies once the game settles.
+    /// @param gameId Game to read
+    /// @return Hook contract, address(0) for none
+    function getSettlementHook(uint256 gameId) external view returns (address) {
+        return _game(gameId).settlementHook;
+    }
+
+    /// @notice Sizes of the public listings.
+    /// @return open Games waiting for players
+    /// @return active Games being played
+    /// @return finished Finished games
+    function getGameCounts() external view returns (uint256 open, uint256 active, uint256 finished) {
+        open = listings[GameListing.Open].length;
+        active = listings[GameListing.Active].length;
+        finished = listings[GameListing.Finished].length;
+    }
+
+    /// @notice Seat and encrypted state of a player in a game.
+    /// @param gameId Game to look up
+    /// @param player Seated address
+    /// @return coins Encrypted coins left
+    /// @return score Encrypted score
+    /// @return hasSubmitted Whether the player submitted to the current round
+    /// @return seat Seat index
+    /// @return coinsClaimed Whether the player claimed their token-backed coins
+    /// @return lastCanSpend Whether the player's last bid was covered, readable by the player only
+    function getPlayerState(
+        uint256 gameId,
+        address player
+    )
         external
         view
-        returns (euint32 coins, euint32 score, bool hasSubmitted, uint8 seat)
+        returns (euint32 coins, euint32 score, bool hasSubmitted, uint8 seat, bool coinsClaimed, ebool lastCanSpend)
     {
-        Game storage game = games[gameId];
-        require(game.id != 0, "Game not found");
+        Game storage game = _game(gameId);
 
         seat = _playerIndex(game, player);
-        require(seat < 2, "Not in game");
+        require(seat < game.rules.seatCount, "Not in game");
 
         PlayerState storage state = game.players[seat];
         coins = state.coins;
         score = state.score;
         hasSubmitted = state.hasSubmitted;
+        coinsClaimed = state.coinsClaimed;
+        lastCanSpend = state.lastCanSpend;
     }
 
-    function getRoundStatus(uint256 gameId)
+    /// @notice Progress of a game's current round.
+    /// @param gameId Game to look up
+    /// @return round Current round
+    /// @return started Whether the game started
+    /// @return finished Whether the game finished
+    /// @return submitted Whether each seat submitted to the round
+    /// @return contributions Encrypted contribution of each seat, readable by that seat only
+    /// @return deadline Timestamp the round times out at, 0 for none
+    function getRoundStatus(
+        uint256 gameId
+    )
         external
         view
         returns (
             uint8 round,
             bool started,
             bool finished,
-            bool firstSubmitted,
-            bool secondSubmitted,
-            euint32 firstContribution,
-            euint32 secondContribution
+            bool[] memory submitted,
+            euint32[] memory contributions,
+            uint64 deadline
         )
     {
-        Game storage game = games[gameId];
-        require(game.id != 0, "Game not found");
+        Game storage game = _game(gameId);
 
         round = game.currentRound;
         started = game.started;
         finished = game.finished;
-        firstSubmitted = game.players[0].hasSubmitted;
-        secondSubmitted = game.players[1].hasSubmitted;
-        firstContribution = game.players[0].lastContribution;
-        secondContribution = game.players[1].lastContribution;
+        submitted = new bool[](game.rules.seatCount);
+        contributions = new euint32[](game.rules.seatCount);
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            submitted[i] = game.players[i].hasSubmitted;
+            contributions[i] = game.players[i].lastContribution;
+        }
+        deadline = game.roundDeadline;
+    }
+
+    /// @notice Archived rounds of a game, clamped to the rounds resolved so far.
+    /// @param gameId Game to look up
+    /// @param fromRound First round, from 1
+    /// @param toRound Last round
+    /// @return records Contributions, wins, scores and revealed contributions of each round
+    function getRoundHistory(
+        uint256 gameId,
+        uint8 fromRound,
+        uint8 toRound
+    ) external view returns (RoundRecord[] memory records) {
+        Game storage game = _game(gameId);
+        require(fromRound >= 1 && fromRound <= toRound, "Invalid round range");
+
+        if (toRound > game.resolvedRounds) {
+            toRound = game.resolvedRounds;
+        }
+        if (fromRound > toRound) {
+            return records;
+        }
+
+        uint8 seatCount = game.rules.seatCount;
+        records = new RoundRecord[](toRound - fromRound + 1);
+        for (uint256 k = 0; k < records.length; k++) {
+            uint8 round = fromRound + uint8(k);
+            RoundRecord memory record = records[k];
+            record.round = round;
+            record.contributions = new euint32[](seatCount);
+            record.won = new ebool[](seatCount);
+            record.scores = new euint32[](seatCount);
+            record.revealed = round <= game.revealedRounds;
+            record.revealedContributions = new uint32[](seatCount);
+            for (uint8 i = 0; i < seatCount; i++) {
+                RoundEntry storage entry = game.history[round][i];
+                record.contributions[i] = entry.contribution;
+                record.won[i] = entry.won;
+                record.scores[i] = entry.score;
+                record.revealedContributions[i] = entry.revealedContribution;
+            }
+        }
+    }
+
+    /// @notice Whether an account may already decrypt every seat's score after a round, so spectators skip
+    /// unlockScores.
+    /// @param gameId Game to look up
+    /// @param round Resolved round
+    /// @param account Address to check
+    /// @return Whether every score of the round is readable by the account
+    function scoresUnlocked(uint256 gameId, uint8 round, address account) external view returns (bool) {
+        Game storage game = _game(gameId);
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            if (!FHE.isAllowed(game.history[round][i].score, account)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /// @notice Result of a game and its encrypted end-of-game flags.
+    /// @param gameId Game to look up
+    /// @return finished Whether the game finished
+    /// @return settled Whether its outcome was confirmed
+    /// @return encryptedOutcome Publicly decryptable outcome once finished: 0 for a draw, otherwise the winning seat
+    /// plus one
+    /// @return winner Winning account once settled, address(0) otherwise or for a draw
+    /// @return coinsExhausted Publicly decryptable flag that every seat is out of coins, for coins exhausted games
+    function getGameResult(
+        uint256 gameId
+    )
+        external
+        view
+        returns (bool finished, bool settled, euint8 encryptedOutcome, address winner, ebool coinsExhausted)
+    {
+        Game storage game = _game(gameId);
+
+        finished = game.finished;
+        settled = game.settled;
+        encryptedOutcome = game.outcome;
+        winner = game.winner;
+        coinsExhausted = game.coinsExhausted;
+    }
+
+    /// @notice Finishes a coins exhausted game with the public decryption of its flag showing every seat out of coins.
+    /// @param gameId Started coins exhausted game
+    /// @param abiEncodedCleartexts Decrypted flag, ABI encoded
+    /// @param decryptionProof KMS signatures over the cleartext
+    function confirmCoinsExhausted(
+        uint256 gameId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        Game storage game = _game(gameId);
+        require(game.started, "Game not started");
+        require(!game.finished, "Game finished");
+        require(game.rules.endRule == EndRule.CoinsExhausted, "Not a coins exhausted game");
+        require(FHE.isInitialized(game.coinsExhausted), "No round resolved");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(game.coinsExhausted);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        require(abi.decode(abiEncodedCleartexts, (bool)), "Coins remaining");
+
+        _finishGame(game, game.currentRound - 1);
+    }
+
+    /// @notice Settles a finished game with the public decryption of its outcome, releasing the stakes.
+    /// @param gameId Finished game
+    /// @param abiEncodedCleartexts Decrypted outcome, ABI encoded
+    /// @param decryptionProof KMS signatures over the cleartext
+    function settleGame(
+        uint256 gameId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external nonReentrant {
+        Game storage game = _game(gameId);
+        require(game.finished, "Game not finished");
+        require(!game.settled, "Game already settled");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(game.outcome);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        uint8 outcome = abi.decode(abiEncodedCleartexts, (uint8));
+        require(outcome <= game.rules.seatCount, "Invalid outcome");
+
+        game.settled = true;
+        if (outcome != GameRounds.OUTCOME_DRAW) {
+            game.winner = game.players[outcome - 1].account;
+        }
+        _releaseStakes(game);
+        _recordSeriesResult(game);
+
+        emit GameSettled(game.id, game.winner, outcome == GameRounds.OUTCOME_DRAW);
+        _notifySettled(game);
+    }
+
+    /// @notice Sends the caller their released stakes of one token.
+    /// @param token Stake token, address(0) for ETH
+    function withdraw(address token) external nonReentrant {
+        uint256 amount = pendingWithdrawals[token][msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        pendingWithdrawals[token][msg.sender] = 0;
+
+        if (token == address(0)) {
+            (bool sent, ) = payable(msg.sender).call{value: amount}("");
+            require(sent, "Transfer failed");
+        } else {
+            _callToken(token, abi.encodeCall(IERC20.transfer, (msg.sender, amount)));
+        }
+
+        emit StakeWithdrawn(msg.sender, token, amount);
+    }
+
+    /// @notice Sends the caller their token-backed coins out of a finished or cancelled game.
+    /// @param gameId Game the caller sat in
+    function claimCoins(uint256 gameId) external nonReentrant {
+        Game storage game = _game(gameId);
+        require(game.rules.coinToken != address(0), "Coins not token backed");
+        require(game.finished || game.cancelled, "Game not finished");
+
+        uint8 seat = _requirePlayerIndex(game, msg.sender);
+        PlayerState storage player = game.players[seat];
+        require(!player.coinsClaimed, "Coins already claimed");
+        player.coinsClaimed = true;
+
+        _sendCoins(game, msg.sender, game.cancelled ? player.deposit : _coinPayout(game, seat));
+
+        emit CoinsClaimed(gameId, msg.sender);
+    }
+
+    /// @notice Marks the contributions of a round range of a finished game publicly decryptable, when its rules
+    /// reveal after the game.
+    /// @param gameId Finished game
+    /// @param fromRound First round of the range
+    /// @param toRound Last round of the range
+    function openReveal(uint256 gameId, uint8 fromRound, uint8 toRound) external {
+        GameReveals.open(_game(gameId), fromRound, toRound);
+    }
+
+    /// @notice Stores the checked public decryption of a round range opened with openReveal, following the rounds
+    /// already revealed.
+    /// @param gameId Finished game
+    /// @param fromRound First round of the range
+    /// @param toRound Last round of the range
+    /// @param abiEncodedCleartexts Contributions of the range, one 32-byte word each, rounds in order and seats within
+    /// each round
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function confirmReveal(
+        uint256 gameId,
+        uint8 fromRound,
+        uint8 toRound,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        GameReveals.confirm(_game(gameId), fromRound, toRound, abiEncodedCleartexts, decryptionProof);
     }
 
     function _resolveRound(Game storage game) internal {
-        ebool firstBeatsSecond = FHE.gt(game.players[0].lastContribution, game.players[1].lastContribution);
-        ebool secondBeatsFirst = FHE.gt(game.players[1].lastContribution, game.players[0].lastContribution);
+        if (GameRounds.resolve(game)) {
+            _finishGame(game, game.resolvedRounds);
+        }
+    }
+
+    function _finishGame(Game storage game, uint8 finalRound) internal {
+        _markFinished(game);
+        GameRounds.finish(game, finalRound);
+    }
+
+    function _game(uint256 gameId) internal view returns (Game storage game) {
+        game = games[gameId];
+        require(game.id != 0, "Game not found");
+    }
+
+    function _unseatedGame(uint256 gameId) internal view returns (Game storage game) {
+        game = _game(gameId);
+        require(_playerIndex(game, msg.sender) == type(uint8).max, "Players cannot spectate");
+    }
+
+    function _summarize(Game storage game) internal view returns (GameSummary memory) {
+        address[] memory players = new address[](game.rules.seatCount);
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            players[i] = game.players[i].account;
+        }
+
+        return
+            GameSummary({
+                gameId: game.id,
+                players: players,
+                started: game.started,
+                finished: game.finished,
+                cancelled: game.cancelled,
+                round: game.currentRound,
+                rules: game.rules,
+                settled: game.settled,
+                winner: game.winner,
+                isPrivate: game.isPrivate
+            });
+    }
+
+    function _createGame(GameRules memory rules, bool isPrivate) internal returns (uint256 gameId) {
+        require(rules.startingCoins > 0, "Invalid starting coins");
+        require(rules.roundReward > 0, "Invalid round reward");
+        require(rules.endRule != EndRule.RoundLimit || rules.maxRounds > 0, "Invalid round limit");
+        require(rules.seatCount >= MIN_SEATS && rules.seatCount <= MAX_SEATS, "Invalid seat count");
+        require(rules.stakeToken == address(0) || rules.stakeAmount > 0, "Invalid stake");
+        // Token-backed coins are paid out as sums of deposits, which must fit in a euint32.
+        require(
+            rules.coinToken == address(0) || uint256(rules.startingCoins) * rules.seatCount <= type(uint32).max,
+            "Invalid starting coins"
+        );
+
+        gameId = nextGameId++;
+        Game storage game = games[gameId];
+        game.id = gameId;
+        game.currentRound = 1;
+        game.rules = rules;
+        game.isPrivate = isPrivate;
+
+        _seatPlayer(game, 0, msg.sender);
+
+        if (!isPrivate) {
+            gameIds.push(gameId);
+        }
+        GameListings.move(games, listings, game, GameListing.All, GameListing.Open);
+
+        emit GameCreated(gameId, msg.sender);
+    }
 
-        euint32 reward = FHE.asEuint32(ROUND_REWARD);
-        euint32 zeroValue = FHE.asEuint32(0);
+    function _joinGame(Game storage game) internal {
+        require(game.id != 0, "Game not found");
+        require(!game.cancelled, "Game cancelled");
+        require(!game.started, "Game already started");
+        require(!game.finished, "Game finished");
+        require(_playerIndex(game, msg.sender) == type(uint8).max, "Already in game");
+        require(game.joinedCount < game.rules.seatCount, "Game full");
+        require(!game.isPrivate || game.invited[msg.sender], "Not invited");
 
-        game.players[0].score = FHE.add(game.players[0].score, FHE.select(firstBeatsSecond, reward, zeroValue));
-        game.players[1].score = FHE.add(game.players[1].score, FHE.select(secondBeatsFirst, reward, zeroValue));
+        uint8 seat = 1;
+        while (game.players[seat].joined) {
+            seat++;
+        }
+        _seatPlayer(game, seat, msg.sender);
 
-        FHE.allowThis(game.players[0].score);
-        FHE.allowThis(game.players[1].score);
-        FHE.allow(game.players[0].score, game.players[0].account);
-        FHE.allow(game.players[1].score, game.players[1].account);
+        emit PlayerJoined(game.id, msg.sender);
 
-        game.players[0].lastContribution = zeroValue;
-        game.players[1].lastContribution = zeroValue;
-        game.players[0].hasSubmitted = false;
-        game.players[1].hasSubmitted = false;
-        game.currentRound += 1;
+        _collectStake(game);
+
+        if (game.autoStart && game.joinedCount == game.rules.seatCount) {
+            _startGame(game);
+        }
+    }
+
+    function _startGame(Game storage game) internal {
+        game.started = true;
+        GameListings.move(games, listings, game, GameListing.Open, GameListing.Active);
+        game.finished = false;
+        game.currentRound = 1;
 
-        FHE.allowThis(game.players[0].lastContribution);
-        FHE.allowThis(game.players[1].lastContribution);
-        FHE.allow(game.players[0].lastContribution, game.players[0].account);
-        FHE.allow(game.players[1].lastContribution, game.players[1].account);
+        GameRounds.open(game);
 
-        emit RoundResolved(game.id, game.currentRound - 1);
+        emit GameStarted(game.id);
     }
 
-    function _seatPlayer(PlayerState storage player, address account) internal {
+    function _seatPlayer(Game storage game, uint8 seat, address account) internal {
+        PlayerState storage player = game.players[seat];
+        game.joinedCount++;
+
         player.account = account;
-        player.coins = FHE.asEuint32(INITIAL_COINS);
+        player.playerGameIndex = playerGames[account].length;
+        playerGames[account].push(game.id);
+        player.coins = FHE.asEuint32(game.rules.startingCoins);
+        player.coinsClaimed = false;
         player.score = FHE.asEuint32(0);
         player.lastContribution = FHE.asEuint32(0);
         player.hasSubmitted = false;
         player.joined = true;
+        if (game.rules.coinToken != address(0)) {
+            // The seat holds whatever the transfer moved, an encrypted zero if the player could not cover it.
+            FHE.allowTransient(player.coins, game.rules.coinToken);
+            player.coins = IConfidentialToken(game.rules.coinToken).confidentialTransferFrom(
+                account,
+                address(this),
+                player.coins
+            );
+            player.deposit = player.coins;
+            FHE.allowThis(player.deposit);
+            FHE.allow(player.deposit, account);
+        }
 
         FHE.allowThis(player.coins);
         FHE.allow(player.coins, account);
@@ -236,24 +1005,148 @@ contract HonestHouse is ZamaEthereumConfig {
         FHE.allow(player.lastContribution, account);
     }
 
-    function _isPlayer(Game storage game, address account) internal view returns (bool) {
-        return (game.players[0].account == account && game.players[0].joined)
-            || (game.players[1].account == account && game.players[1].joined);
+    // Spent coins form a pot that goes to the winner on top of their unspent coins; a draw returns every deposit.
+    function _coinPayout(Game storage game, uint8 seat) internal returns (euint32) {
+        PlayerState storage player = game.players[seat];
+        if (game.settled && game.winner == address(0)) {
+            return player.deposit;
+        }
+
+        euint32 pot = FHE.asEuint32(0);
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            pot = FHE.add(pot, FHE.sub(game.players[i].deposit, game.players[i].coins));
+        }
+        if (game.settled) {
+            return game.winner == player.account ? FHE.add(player.coins, pot) : player.coins;
+        }
+
+        // Unsettled games pay out from the encrypted outcome, so claiming does not wait for the public reveal.
+        ebool won = FHE.eq(game.outcome, seat + 1);
+        euint32 winnings = FHE.add(player.coins, FHE.select(won, pot, FHE.asEuint32(0)));
+        return FHE.select(FHE.eq(game.outcome, GameRounds.OUTCOME_DRAW), player.deposit, winnings);
+    }
+
+    function _sendCoins(Game storage game, address to, euint32 amount) internal {
+        FHE.allowTransient(amount, game.rules.coinToken);
+        IConfidentialToken(game.rules.coinToken).confidentialTransfer(to, amount);
     }
 
-    function _playerIndex(Game storage game, address account) internal view returns (uint8) {
-        if (game.players[0].account == account && game.players[0].joined) {
-            return 0;
+    function _collectStake(Game storage game) internal {
+        if (game.rules.stakeToken == address(0)) {
+            require(msg.value == game.rules.stakeAmount, "Incorrect stake");
+            return;
+        }
+
+        require(msg.value == 0, "Incorrect stake");
+        _callToken(
+            game.rules.stakeToken,
+            abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), game.rules.stakeAmount))
+        );
+    }
+
+    // The winner takes every deposit; draws and cancellations hand each seated player their stake back.
+    function _releaseStakes(Game storage game) internal {
+        uint256 stake = game.rules.stakeAmount;
+        if (stake == 0) {
+            return;
         }
-        if (game.players[1].account == account && game.players[1].joined) {
-            return 1;
+
+        address token = game.rules.stakeToken;
+        if (game.winner != address(0)) {
+            pendingWithdrawals[token][game.winner] += stake * game.joinedCount;
+            return;
+        }
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            if (game.players[i].joined) {
+                pendingWithdrawals[token][game.players[i].account] += stake;
+            }
+        }
+    }
+
+    // Accepts tokens that return nothing as well as tokens that return true.
+    function _callToken(address token, bytes memory data) internal {
+        (bool success, bytes memory returned) = token.call(data);
+        require(
+            success && (returned.length == 0 || abi.decode(returned, (bool))) && token.code.length > 0,
+            "Transfer failed"
+        );
+    }
+
+    function _markFinished(Game storage game) internal {
+        game.finished = true;
+        GameListings.move(games, listings, game, GameListing.Active, GameListing.Finished);
+    }
+
+    function _invite(Game storage game, address[] calldata invitees) internal {
+        for (uint256 i = 0; i < invitees.length; i++) {
+            game.invited[invitees[i]] = true;
+            emit PlayerInvited(game.id, invitees[i]);
+        }
+    }
+
+    function _recordSeriesResult(Game storage game) internal {
+        Rematches.recordResult(series, game);
+    }
+
+    // Calls the game's settlement hook, if it has one. The settlement stands whether or not the hook succeeds.
+    function _notifySettled(Game storage game) internal {
+        address hook = game.settlementHook;
+        // A call to an account without code reverts outside the try, so such a hook is skipped.
+        if (hook.code.length == 0) {
+            return;
+        }
+        // A call forwards at most 63/64 of the gas left, so the hook only gets its full allowance if this much remains.
+        require(gasleft() >= SETTLEMENT_HOOK_GAS + SETTLEMENT_HOOK_GAS / 32, "Not enough gas for hook");
+        try ISettlementHook(hook).onGameSettled{gas: SETTLEMENT_HOOK_GAS}(game.id) {} catch {}
+    }
+
+    // Recovers who signed Invite(gameId, player), or address(0) for a malformed signature.
+    function _inviteSigner(uint256 gameId, address player, bytes calldata signature) internal view returns (address) {
+        if (signature.length != 65) {
+            return address(0);
+        }
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_SIGNATURE_S) {
+            return address(0);
+        }
+
+        bytes32 domainSeparator = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("HonestHouse"), keccak256("1"), block.chainid, address(this))
+        );
+        bytes32 structHash = keccak256(abi.encode(INVITE_TYPEHASH, gameId, player));
+        return ecrecover(keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash)), v, r, s);
+    }
+
+    function _pageSummaries(
+        uint256[] storage ids,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (GameSummary[] memory summaries) {
+        if (offset >= ids.length) {
+            return summaries;
+        }
+
+        uint256 count = ids.length - offset < limit ? ids.length - offset : limit;
+        summaries = new GameSummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            summaries[i] = _summarize(games[ids[offset + i]]);
+        }
+    }
+
+    function _playerIndex(Game storage game, address account) internal view returns (uint8) {
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            if (game.players[i].account == account && game.players[i].joined) {
+                return i;
+            }
         }
         return type(uint8).max;
     }
 
     function _requirePlayerIndex(Game storage game, address account) internal view returns (uint8) {
         uint8 index = _playerIndex(game, account);
-        require(index < 2, "Not in game");
+        require(index < game.rules.seatCount, "Not in game");
         return index;
     }
 }
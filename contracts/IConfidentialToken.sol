@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Confidential token interface
+/// @notice Encrypted-balance token interface used to fund in-game coins. Transfers move at most the sender's balance
+/// and return the amount that actually moved, which is an encrypted zero when the balance is too low.
+interface IConfidentialToken {
+    /// @notice Moves up to `amount` from the caller to `to`.
+    /// @param to Recipient of the transfer
+    /// @param amount Encrypted amount the caller is allowed to use
+    /// @return transferred Encrypted amount that actually moved
+    function confidentialTransfer(address to, euint32 amount) external returns (euint32 transferred);
+
+    /// @notice Moves up to `amount` from `from` to `to` for a caller that `from` made its operator.
+    /// @param from Holder whose balance is spent
+    /// @param to Recipient of the transfer
+    /// @param amount Encrypted amount the caller is allowed to use
+    /// @return transferred Encrypted amount that actually moved
+    function confidentialTransferFrom(address from, address to, euint32 amount) external returns (euint32 transferred);
+
+    /// @notice Whether `spender` may currently move the balance of `holder`.
+    /// @param holder Owner of the balance
+    /// @param spender Account that would move it
+    /// @return Whether `spender` is `holder` or an operator of `holder` that has not expired
+    function isOperator(address holder, address spender) external view returns (bool);
+}
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Settlement hook
+/// @notice Contract a game's creator names to hear from the house once the game settles, such as the tournament the
+/// game decides a match of.
+interface ISettlementHook {
+    /// @notice Called by the house after a game settles, with its winner and stakes already recorded.
+    /// @param gameId Settled game
+    function onGameSettled(uint256 gameId) external;
+}
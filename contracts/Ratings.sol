@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {HonestHouse} from "./HonestHouse.sol";
+
+/// @title Ratings
+/// @notice Public win, loss and draw records with an Elo rating per address, built from settled HonestHouse games.
+/// Anyone can record a settled game and each game counts once. Results are read from the house, so nobody reports
+/// their own.
+contract Ratings {
+    struct PlayerStats {
+        uint32 wins;
+        uint32 losses;
+        uint32 draws;
+        uint32 rating;
+    }
+
+    struct Standing {
+        address player;
+        PlayerStats stats;
+    }
+
+    /// @notice House whose settled games are rated
+    HonestHouse public immutable house;
+    /// @notice Settled games already counted
+    mapping(uint256 gameId => bool counted) public recorded;
+    mapping(address player => PlayerStats playerStats) private stats;
+    // Every address with a recorded game, in the order they first appeared.
+    address[] private players;
+
+    /// @notice Rating of an address before its first recorded game
+    uint32 public constant INITIAL_RATING = 1500;
+    int256 private constant K_FACTOR = 32;
+    // Expected scores are tabled every GAP_STEP rating points; larger gaps count as MAX_RATING_GAP.
+    int256 private constant GAP_STEP = 50;
+    int256 private constant MAX_RATING_GAP = 800;
+
+    /// @notice Emitted once per settled game when it is counted.
+    /// @param gameId House game that was counted
+    /// @param winner Winning address, zero for a draw
+    /// @param draw Whether the game was a draw
+    event GameRecorded(uint256 indexed gameId, address indexed winner, bool draw);
+    /// @notice Emitted for every seat of a counted game.
+    /// @param player Seated address
+    /// @param rating Its rating after the game
+    event RatingChanged(address indexed player, uint32 rating);
+
+    constructor(HonestHouse house_) {
+        house = house_;
+    }
+
+    /// @notice Rates a game as every pair of seats playing each other: the winner beats each other seat and the rest
+    /// draw among themselves, or every pair draws. Each pairing moves a rating by up to K / (seats - 1).
+    /// @param gameId Settled house game that has not been counted yet
+    function recordGame(uint256 gameId) external {
+        require(!recorded[gameId], "Game already recorded");
+        HonestHouse.GameSummary memory summary = house.getGameSummary(gameId);
+        require(summary.settled, "Game not settled");
+        recorded[gameId] = true;
+
+        address[] memory seats = summary.players;
+        int256[] memory ratings = new int256[](seats.length);
+        for (uint256 i = 0; i < seats.length; i++) {
+            PlayerStats storage player = stats[seats[i]];
+            if (player.wins + player.losses + player.draws == 0) {
+                player.rating = INITIAL_RATING;
+                players.push(seats[i]);
+            }
+            ratings[i] = int256(uint256(player.rating));
+        }
+
+        for (uint256 i = 0; i < seats.length; i++) {
+            PlayerStats storage player = stats[seats[i]];
+            int256 rating = ratings[i] + _ratingChange(seats, ratings, i, summary.winner);
+            player.rating = rating < 0 ? 0 : uint32(uint256(rating));
+            if (summary.winner == address(0)) {
+                player.draws++;
+            } else if (seats[i] == summary.winner) {
+                player.wins++;
+            } else {
+                player.losses++;
+            }
+            emit RatingChanged(seats[i], player.rating);
+        }
+
+        emit GameRecorded(gameId, summary.winner, summary.winner == address(0));
+    }
+
+    /// @notice Results and rating of an address. Addresses without a recorded game report no results and the
+    /// initial rating.
+    /// @param player Address to look up
+    /// @return playerStats Wins, losses, draws and rating
+    function getPlayerStats(address player) external view returns (PlayerStats memory playerStats) {
+        playerStats = stats[player];
+        if (playerStats.wins + playerStats.losses + playerStats.draws == 0) {
+            playerStats.rating = INITIAL_RATING;
+        }
+    }
+
+    /// @notice Number of addresses with a recorded game.
+    /// @return Addresses on the leaderboard
+    function playerCount() external view returns (uint256) {
+        return players.length;
+    }
+
+    /// @notice The `limit` highest rated players, best first. Equal ratings keep the order the players first
+    /// appeared in.
+    /// @param limit Most standings to return
+    /// @return top Standings, fewer than `limit` when fewer players have a recorded game
+    function getLeaderboard(uint256 limit) external view returns (Standing[] memory top) {
+        uint256 count = limit < players.length ? limit : players.length;
+        top = new Standing[](count);
+        uint256 filled = 0;
+        for (uint256 i = 0; i < players.length; i++) {
+            PlayerStats memory candidate = stats[players[i]];
+            uint256 position = filled;
+            while (position > 0 && top[position - 1].stats.rating < candidate.rating) {
+                if (position < count) {
+                    top[position] = top[position - 1];
+                }
+                position--;
+            }
+            if (position < count) {
+                top[position] = Standing({player: players[i], stats: candidate});
+                if (filled < count) {
+                    filled++;
+                }
+            }
+        }
+    }
+
+    // Sum of seat `i`'s pairings against every other seat, scaled so a whole game moves a rating by up to K.
+    function _ratingChange(
+        address[] memory seats,
+        int256[] memory ratings,
+        uint256 i,
+        address winner
+    ) internal pure returns (int256) {
+        int256 change = 0;
+        for (uint256 j = 0; j < seats.length; j++) {
+            if (j == i) {
+                continue;
+            }
+            int256 actual = 500;
+            if (seats[i] == winner) {
+                actual = 1000;
+            } else if (seats[j] == winner) {
+                actual = 0;
+            }
+            change += actual - _expectedScore(ratings[i] - ratings[j]);
+        }
+        return (change * K_FACTOR) / (1000 * int256(seats.length - 1));
+    }
+
+    // Expected score in thousandths for a player rated `gap` points above the opponent, 1000 / (1 + 10^(-gap / 400)),
+    // read from a table and interpolated between its entries.
+    function _expectedScore(int256 gap) internal pure returns (int256) {
+        if (gap < 0) {
+            return 1000 - _expectedScore(-gap);
+        }
+        // prettier-ignore
+        uint16[17] memory table = [
+            uint16(500), 571, 640, 703, 760, 808, 849, 882, 909, 930, 947, 960, 969, 977, 983, 987, 990
+        ];
+        if (gap >= MAX_RATING_GAP) {
+            return int256(uint256(table[16]));
+        }
+        uint256 step = uint256(gap / GAP_STEP);
+        int256 low = int256(uint256(table[step]));
+        int256 high = int256(uint256(table[step + 1]));
+        return low + ((high - low) * (gap % GAP_STEP)) / GAP_STEP;
+    }
+}
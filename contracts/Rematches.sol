@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {HonestHouse} from "./HonestHouse.sol";
+
+/// @title Rematches
+/// @notice Rematch proposals and the series they chain games into, for HonestHouse. Linked into the house and reached
+/// through delegatecall, so it works on the house's storage and emits the house's events.
+library Rematches {
+    /// @notice Links `rematchId`, a private game the caller just created with the same rules, as the rematch of a
+    /// settled two-seat game they played, and invites their opponent. A new proposal is only possible once the last
+    /// one is cancelled.
+    /// @param games Games by id
+    /// @param series Series by the id of their first game
+    /// @param gameId Settled game to rematch
+    /// @param rematchId Private game that becomes the rematch
+    function propose(
+        mapping(uint256 => HonestHouse.Game) storage games,
+        mapping(uint256 => HonestHouse.Series) storage series,
+        uint256 gameId,
+        uint256 rematchId
+    ) public {
+        HonestHouse.Game storage previous = games[gameId];
+        require(previous.settled, "Game not settled");
+        require(previous.rules.seatCount == 2, "Rematch needs two seats");
+        address first = previous.players[0].account;
+        address second = previous.players[1].account;
+        require(msg.sender == first || msg.sender == second, "Not in game");
+        require(previous.rematchId == 0 || games[previous.rematchId].cancelled, "Rematch already proposed");
+
+        if (previous.seriesId == 0) {
+            previous.seriesId = gameId;
+            series[gameId].players = [first, second];
+            recordResult(series, previous);
+        }
+
+        HonestHouse.Game storage game = games[rematchId];
+        game.seriesId = previous.seriesId;
+        game.autoStart = true;
+        previous.rematchId = rematchId;
+
+        address opponent = msg.sender == first ? second : first;
+        game.invited[opponent] = true;
+        emit HonestHouse.PlayerInvited(rematchId, opponent);
+        emit HonestHouse.RematchProposed(gameId, rematchId, msg.sender);
+    }
+
+    /// @notice Credits a settled game to the series it belongs to, if any.
+    /// @param series Series by the id of their first game
+    /// @param game Settled game
+    function recordResult(mapping(uint256 => HonestHouse.Series) storage series, HonestHouse.Game storage game) public {
+        if (game.seriesId == 0) {
+            return;
+        }
+        HonestHouse.Series storage score = series[game.seriesId];
+        if (game.winner == address(0)) {
+            score.draws++;
+        } else {
+            score.wins[game.winner == score.players[0] ? 0 : 1]++;
+        }
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {HonestHouse} from "./HonestHouse.sol";
+
+/// @title Spectators
+/// @notice Spectator registration and delayed score access for HonestHouse games. Linked into the house and reached
+/// through delegatecall, so it works on the house's storage and grants ACL access as the house.
+library Spectators {
+    /// @notice Registers the caller as a spectator of a game that allows them.
+    /// @param game Game to watch
+    function register(HonestHouse.Game storage game) public {
+        require(game.rules.spectatorDelay != 0, "Spectators not allowed");
+        game.spectators[msg.sender] = true;
+        emit HonestHouse.SpectatorRegistered(game.id, msg.sender);
+    }
+
+    /// @notice Lets a registered spectator decrypt every seat's score after `round`, once the round is spectatorDelay
+    /// rounds old or the game is finished.
+    /// @param game Game the caller spectates
+    /// @param round Resolved round whose scores to unlock
+    function unlockScores(HonestHouse.Game storage game, uint8 round) public {
+        require(game.spectators[msg.sender], "Not a spectator");
+        uint8 lastVisible = game.resolvedRounds;
+        if (!game.finished) {
+            lastVisible = lastVisible > game.rules.spectatorDelay ? lastVisible - game.rules.spectatorDelay : 0;
+        }
+        require(round >= 1 && round <= lastVisible, "Round not visible");
+        for (uint8 i = 0; i < game.rules.seatCount; i++) {
+            FHE.allow(game.history[round][i].score, msg.sender);
+        }
+    }
+}
@@ -0,0 +1,366 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {HonestHouse} from "./HonestHouse.sol";
+import {ISettlementHook} from "./ISettlementHook.sol";
+
+/// @title Tournament
+/// @notice Single-elimination brackets played as HonestHouse games. Players register until the organizer starts the
+/// tournament; each pairing then plays a private two-seat game with the tournament's rules, which one of the pair
+/// creates, hooks to the tournament and links to its match. The house calls the tournament back when the game settles,
+/// which advances the winner, and the champion takes the pooled entry fees.
+contract Tournament is ISettlementHook {
+    enum Status {
+        Registration,
+        Running,
+        Finished,
+        Cancelled
+    }
+
+    struct Match {
+        // An empty slot waits for the winner of an earlier match, or is a bye in the first round.
+        address[2] players;
+        // Game linked to the match, 0 while none is. Draws clear it so the pair can play again.
+        uint256 gameId;
+        uint64 linkedAt;
+        address winner;
+    }
+
+    struct Bracket {
+        address organizer;
+        HonestHouse.GameRules rules;
+        uint8 maxPlayers;
+        uint256 entryFee;
+        // Seconds an opponent has to join a linked game before its creator may claim a walkover, 0 for never.
+        uint32 joinWindow;
+        Status status;
+        address[] entrants;
+        mapping(address player => bool entered) registered;
+        // First round first, the final last. The winner of match i plays in match size / 2 + i / 2.
+        Match[] matches;
+        address champion;
+    }
+
+    struct MatchRef {
+        uint256 tournamentId;
+        uint256 matchIndex;
+    }
+
+    struct TournamentSummary {
+        uint256 tournamentId;
+        address organizer;
+        HonestHouse.GameRules rules;
+        uint8 maxPlayers;
+        uint256 entryFee;
+        uint32 joinWindow;
+        Status status;
+        address[] entrants;
+        uint256 prize;
+        address champion;
+    }
+
+    /// @notice Largest number of entrants a tournament may take
+    uint8 public constant MAX_PLAYERS = 64;
+
+    /// @notice House the matches are played in
+    HonestHouse public immutable house;
+    /// @notice Id the next tournament gets
+    uint256 public nextTournamentId = 1;
+    mapping(uint256 tournamentId => Bracket bracket) private tournaments;
+    /// @notice The match each linked game decides, until it is reported
+    mapping(uint256 gameId => MatchRef matchRef) public gameMatches;
+    /// @notice Prizes and refunded entry fees waiting to be withdrawn, in ETH
+    mapping(address account => uint256 amount) public pendingWithdrawals;
+
+    /// @notice Emitted when a tournament opens for registration.
+    /// @param tournamentId New tournament
+    /// @param organizer Account that may start or cancel it
+    event TournamentCreated(uint256 indexed tournamentId, address indexed organizer);
+    /// @notice Emitted when a player registers.
+    /// @param tournamentId Tournament entered
+    /// @param player Registered player
+    event PlayerRegistered(uint256 indexed tournamentId, address indexed player);
+    /// @notice Emitted when registration closes and the first round is paired.
+    /// @param tournamentId Started tournament
+    /// @param bracketSize Player count rounded up to a power of two
+    event TournamentStarted(uint256 indexed tournamentId, uint256 bracketSize);
+    /// @notice Emitted when the organizer cancels a tournament before it starts.
+    /// @param tournamentId Cancelled tournament
+    event TournamentCancelled(uint256 indexed tournamentId);
+    /// @notice Emitted when a game is linked to a match.
+    /// @param tournamentId Tournament of the match
+    /// @param matchIndex Match in the bracket
+    /// @param gameId House game that decides it
+    event GameLinked(uint256 indexed tournamentId, uint256 matchIndex, uint256 indexed gameId);
+    /// @notice Emitted when a linked game ends in a draw, so the pair links a new one.
+    /// @param tournamentId Tournament of the match
+    /// @param matchIndex Match in the bracket
+    /// @param gameId Drawn house game
+    event MatchDrawn(uint256 indexed tournamentId, uint256 matchIndex, uint256 indexed gameId);
+    /// @notice Emitted when a match is won, by a reported game, a walkover or a bye.
+    /// @param tournamentId Tournament of the match
+    /// @param matchIndex Match in the bracket
+    /// @param winner Player who advances
+    event MatchDecided(uint256 indexed tournamentId, uint256 matchIndex, address indexed winner);
+    /// @notice Emitted when the final is decided.
+    /// @param tournamentId Finished tournament
+    /// @param champion Winner of the final
+    /// @param prize Pooled entry fees credited to the champion
+    event TournamentFinished(uint256 indexed tournamentId, address indexed champion, uint256 prize);
+    /// @notice Emitted when an account withdraws its prizes and refunds.
+    /// @param account Withdrawing account
+    /// @param amount ETH sent
+    event PrizeWithdrawn(address indexed account, uint256 amount);
+
+    constructor(HonestHouse house_) {
+        house = house_;
+    }
+
+    /// @notice Opens a tournament for registration. Every match is a game with these rules.
+    /// @param rules Rules of every match game; they must seat two
+    /// @param maxPlayers Most entrants, from 2 to MAX_PLAYERS
+    /// @param entryFee ETH each entrant pays; 0 makes a tournament without a prize
+    /// @param joinWindow Seconds an opponent has to join a linked game before a walkover, 0 for never
+    /// @return tournamentId New tournament
+    function createTournament(
+        HonestHouse.GameRules calldata rules,
+        uint8 maxPlayers,
+        uint256 entryFee,
+        uint32 joinWindow
+    ) external returns (uint256 tournamentId) {
+        require(rules.seatCount == 2, "Matches need two seats");
+        require(maxPlayers >= 2 && maxPlayers <= MAX_PLAYERS, "Invalid player limit");
+
+        tournamentId = nextTournamentId++;
+        Bracket storage t = tournaments[tournamentId];
+        t.organizer = msg.sender;
+        t.rules = rules;
+        t.maxPlayers = maxPlayers;
+        t.entryFee = entryFee;
+        t.joinWindow = joinWindow;
+
+        emit TournamentCreated(tournamentId, msg.sender);
+    }
+
+    /// @notice Registers the caller, who pays the entry fee.
+    /// @param tournamentId Tournament still taking registrations
+    function register(uint256 tournamentId) external payable {
+        Bracket storage t = _tournament(tournamentId);
+        require(t.status == Status.Registration, "Registration closed");
+        require(!t.registered[msg.sender], "Already registered");
+        require(t.entrants.length < t.maxPlayers, "Tournament full");
+        require(msg.value == t.entryFee, "Wrong entry fee");
+
+        t.registered[msg.sender] = true;
+        t.entrants.push(msg.sender);
+        emit PlayerRegistered(tournamentId, msg.sender);
+    }
+
+    /// @notice Closes registration and pairs entrant i with entrant i + size / 2, where size is the player count
+    /// rounded up to a power of two. Entrants without an opponent get a bye into the second round.
+    /// @param tournamentId Tournament the caller organizes
+    function startTournament(uint256 tournamentId) external {
+        Bracket storage t = _tournament(tournamentId);
+        require(t.organizer == msg.sender, "Not organizer");
+        require(t.status == Status.Registration, "Registration closed");
+        uint256 count = t.entrants.length;
+        require(count >= 2, "Not enough players");
+
+        uint256 size = 2;
+        while (size < count) {
+            size *= 2;
+        }
+        for (uint256 i = 1; i < size; i++) {
+            t.matches.push();
+        }
+        t.status = Status.Running;
+        emit TournamentStarted(tournamentId, size);
+
+        uint256 half = size / 2;
+        for (uint256 i = 0; i < half; i++) {
+            t.matches[i].players[0] = t.entrants[i];
+            if (i + half < count) {
+                t.matches[i].players[1] = t.entrants[i + half];
+            } else {
+                _advance(t, tournamentId, i, t.entrants[i]);
+            }
+        }
+    }
+
+    /// @notice Cancels a tournament that has not started and refunds every entry fee.
+    /// @param tournamentId Tournament the caller organizes
+    function cancelTournament(uint256 tournamentId) external {
+        Bracket storage t = _tournament(tournamentId);
+        require(t.organizer == msg.sender, "Not organizer");
+        require(t.status == Status.Registration, "Registration closed");
+
+        t.status = Status.Cancelled;
+        for (uint256 i = 0; i < t.entrants.length; i++) {
+            pendingWithdrawals[t.entrants[i]] += t.entryFee;
+        }
+        emit TournamentCancelled(tournamentId);
+    }
+
+    /// @notice Links a game the caller created for their match: a private game with the tournament's rules, not
+    /// started yet, that only the pair sits in and that the opponent is invited to, so a walkover needs a game they
+    /// could join. The game must name this tournament as its settlement hook, so settling it decides the match. The
+    /// link can be replaced once that game is cancelled or seats someone else.
+    /// @param tournamentId Running tournament
+    /// @param matchIndex Undecided match the caller plays in
+    /// @param gameId House game the caller created
+    function linkGame(uint256 tournamentId, uint256 matchIndex, uint256 gameId) external {
+        Bracket storage t = _tournament(tournamentId);
+        require(t.status == Status.Running, "Tournament not running");
+        Match storage m = _openMatch(t, matchIndex);
+        require(m.players[0] == msg.sender || m.players[1] == msg.sender, "Not in match");
+        require(gameMatches[gameId].tournamentId == 0, "Game already linked");
+        if (m.gameId != 0) {
+            HonestHouse.GameSummary memory linked = house.getGameSummary(m.gameId);
+            require(linked.cancelled || !_seatsPair(m, linked.players), "Match already has a game");
+            delete gameMatches[m.gameId];
+        }
+
+        HonestHouse.GameSummary memory summary = house.getGameSummary(gameId);
+        require(summary.players[0] == msg.sender, "Not game creator");
+        require(summary.isPrivate && !summary.started && !summary.cancelled, "Game not open");
+        require(keccak256(abi.encode(summary.rules)) == keccak256(abi.encode(t.rules)), "Rules differ");
+        require(_seatsPair(m, summary.players), "Game seats another player");
+        address opponent = m.players[0] == msg.sender ? m.players[1] : m.players[0];
+        require(summary.players[1] == opponent || house.isInvited(gameId, opponent), "Opponent not invited");
+        require(house.getSettlementHook(gameId) == address(this), "Game not hooked");
+
+        m.gameId = gameId;
+        m.linkedAt = uint64(block.timestamp);
+        gameMatches[gameId] = MatchRef({tournamentId: tournamentId, matchIndex: matchIndex});
+        emit GameLinked(tournamentId, matchIndex, gameId);
+    }
+
+    /// @notice Called by the house when a game settles. A linked game decides its match: the winner advances; after a
+    /// draw the pair links a new game.
+    /// @param gameId Settled house game
+    function onGameSettled(uint256 gameId) external {
+        require(msg.sender == address(house), "Not the house");
+        if (gameMatches[gameId].tournamentId != 0) {
+            _report(gameId);
+        }
+    }
+
+    /// @notice Reports a settled linked game, which anyone may do. Settling reports the game already; this is for a
+    /// game whose settlement hook failed.
+    /// @param gameId Linked house game
+    function reportGame(uint256 gameId) external {
+        require(gameMatches[gameId].tournamentId != 0, "Game not linked");
+        _report(gameId);
+    }
+
+    /// @notice Advances the creator of a linked game the opponent did not join within the tournament's join window.
+    /// @param tournamentId Running tournament
+    /// @param matchIndex Match whose game the caller created
+    function claimWalkover(uint256 tournamentId, uint256 matchIndex) external {
+        Bracket storage t = _tournament(tournamentId);
+        require(t.status == Status.Running, "Tournament not running");
+        require(t.joinWindow != 0, "Walkovers disabled");
+        Match storage m = _openMatch(t, matchIndex);
+        require(m.gameId != 0, "No game linked");
+        require(block.timestamp >= m.linkedAt + t.joinWindow, "Join window open");
+        HonestHouse.GameSummary memory summary = house.getGameSummary(m.gameId);
+        require(summary.players[0] == msg.sender, "Not game creator");
+        require(summary.players[1] == address(0) && !summary.cancelled, "Opponent joined");
+
+        delete gameMatches[m.gameId];
+        _advance(t, tournamentId, matchIndex, msg.sender);
+    }
+
+    /// @notice Sends the caller their prizes and refunded entry fees.
+    function withdraw() external {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        pendingWithdrawals[msg.sender] = 0;
+
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
+        require(sent, "Transfer failed");
+        emit PrizeWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Settings, entrants, prize and champion of a tournament.
+    /// @param tournamentId Tournament to look up
+    /// @return summary Tournament summary
+    function getTournament(uint256 tournamentId) external view returns (TournamentSummary memory summary) {
+        Bracket storage t = _tournament(tournamentId);
+        summary = TournamentSummary({
+            tournamentId: tournamentId,
+            organizer: t.organizer,
+            rules: t.rules,
+            maxPlayers: t.maxPlayers,
+            entryFee: t.entryFee,
+            joinWindow: t.joinWindow,
+            status: t.status,
+            entrants: t.entrants,
+            prize: t.entryFee * t.entrants.length,
+            champion: t.champion
+        });
+    }
+
+    /// @notice Every match of a started tournament, first round first; empty before it starts.
+    /// @param tournamentId Tournament to look up
+    /// @return Matches of the bracket
+    function getBracket(uint256 tournamentId) external view returns (Match[] memory) {
+        return _tournament(tournamentId).matches;
+    }
+
+    function _tournament(uint256 tournamentId) internal view returns (Bracket storage t) {
+        t = tournaments[tournamentId];
+        require(t.organizer != address(0), "Tournament not found");
+    }
+
+    function _openMatch(Bracket storage t, uint256 matchIndex) internal view returns (Match storage m) {
+        require(matchIndex < t.matches.length, "Match not found");
+        m = t.matches[matchIndex];
+        require(m.winner == address(0), "Match decided");
+        require(m.players[0] != address(0) && m.players[1] != address(0), "Match not ready");
+    }
+
+    function _advance(Bracket storage t, uint256 tournamentId, uint256 matchIndex, address winner) internal {
+        t.matches[matchIndex].winner = winner;
+        emit MatchDecided(tournamentId, matchIndex, winner);
+
+        uint256 size = t.matches.length + 1;
+        if (matchIndex == size - 2) {
+            t.champion = winner;
+            t.status = Status.Finished;
+            uint256 prize = t.entryFee * t.entrants.length;
+            pendingWithdrawals[winner] += prize;
+            emit TournamentFinished(tournamentId, winner, prize);
+            return;
+        }
+        t.matches[size / 2 + matchIndex / 2].players[matchIndex % 2] = winner;
+    }
+
+    // Decides the match of a settled linked game.
+    function _report(uint256 gameId) internal {
+        MatchRef memory ref = gameMatches[gameId];
+        Bracket storage t = tournaments[ref.tournamentId];
+        Match storage m = t.matches[ref.matchIndex];
+        HonestHouse.GameSummary memory summary = house.getGameSummary(gameId);
+        require(summary.settled, "Game not settled");
+        require(_seatsPair(m, summary.players), "Game seats another player");
+
+        delete gameMatches[gameId];
+        if (summary.winner == address(0)) {
+            m.gameId = 0;
+            emit MatchDrawn(ref.tournamentId, ref.matchIndex, gameId);
+            return;
+        }
+        _advance(t, ref.tournamentId, ref.matchIndex, summary.winner);
+    }
+
+    // Whether every filled seat of a game belongs to the match.
+    function _seatsPair(Match storage m, address[] memory seats) internal view returns (bool) {
+        for (uint256 i = 0; i < seats.length; i++) {
+            if (seats[i] != address(0) && seats[i] != m.players[0] && seats[i] != m.players[1]) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
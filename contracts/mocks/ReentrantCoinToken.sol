@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {IConfidentialToken} from "../IConfidentialToken.sol";
+
+interface IHouseSeat {
+    function joinGame(uint256 gameId) external payable;
+
+    function leaveGame(uint256 gameId) external;
+}
+
+// Hostile coin token for local tests. It takes a seat itself and calls back into the house from inside the transfers
+// the house makes, trying to join twice or to collect its stake refund again while it leaves.
+contract ReentrantCoinToken is IConfidentialToken {
+    enum Attack {
+        None,
+        Join,
+        Leave
+    }
+
+    IHouseSeat public immutable house;
+    Attack public attack;
+    uint256 public gameId;
+
+    constructor(IHouseSeat house_) {
+        house = house_;
+    }
+
+    receive() external payable {}
+
+    function arm(Attack attack_, uint256 gameId_) external {
+        attack = attack_;
+        gameId = gameId_;
+    }
+
+    function join(uint256 gameId_) external payable {
+        house.joinGame{value: msg.value}(gameId_);
+    }
+
+    function leave(uint256 gameId_) external {
+        house.leaveGame(gameId_);
+    }
+
+    function confidentialTransfer(address, euint32 amount) external returns (euint32) {
+        if (attack == Attack.Leave) {
+            attack = Attack.None;
+            house.leaveGame(gameId);
+        }
+        return amount;
+    }
+
+    function confidentialTransferFrom(address, address, euint32 amount) external returns (euint32) {
+        if (attack == Attack.Join) {
+            attack = Attack.None;
+            house.joinGame(gameId);
+        }
+        return amount;
+    }
+
+    function isOperator(address, address) external pure returns (bool) {
+        return true;
+    }
+}
@@ -1,12 +1,20 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { HOUSE_LIBRARIES } from "../client/HonestHouseClient";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  // HonestHouse delegates part of its logic to its libraries and is linked against them.
+  const libraries: Record<string, string> = {};
+  for (const name of HOUSE_LIBRARIES) {
+    libraries[name] = (await deploy(name, { from: deployer, log: true })).address;
+  }
+
   const deployedHonestHouse = await deploy("HonestHouse", {
     from: deployer,
+    libraries,
     log: true,
   });
 
@@ -0,0 +1,18 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedToken = await deploy("ConfidentialToken", {
+    from: deployer,
+    args: ["Honest Coin", "HCOIN"],
+    log: true,
+  });
+
+  console.log(`ConfidentialToken contract: `, deployedToken.address);
+};
+export default func;
+func.id = "deploy_confidentialToken"; // id required to prevent reexecution
+func.tags = ["ConfidentialToken"];
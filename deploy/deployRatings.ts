@@ -0,0 +1,20 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+
+  const house = await get("HonestHouse");
+  const deployedRatings = await deploy("Ratings", {
+    from: deployer,
+    args: [house.address],
+    log: true,
+  });
+
+  console.log(`Ratings contract: `, deployedRatings.address);
+};
+export default func;
+func.id = "deploy_ratings"; // id required to prevent reexecution
+func.tags = ["Ratings"];
+func.dependencies = ["HonestHouse"];
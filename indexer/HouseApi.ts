@@ -0,0 +1,173 @@
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { GameStatus, HouseIndexer, IndexedGame, IndexedSubmission, Snapshot } from "./HouseIndexer";
+
+// Read-only HTTP/JSON view of an indexer's snapshot. Lists take offset and limit like the contract's paged getters,
+// and /events streams every newly indexed event as server-sent events.
+
+export const MAX_PAGE_SIZE = 100;
+
+const STATUSES: GameStatus[] = ["open", "active", "finished", "cancelled"];
+
+export type GameListItem = Omit<IndexedGame, "submissions" | "rounds"> & { rounds: number };
+
+export type RoundView = {
+  round: number;
+  block: number;
+  timestamp: number;
+  submissions: Omit<IndexedSubmission, "round">[];
+};
+
+export type Page<T> = {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+};
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function listItem(game: IndexedGame): GameListItem {
+  const { submissions: _submissions, rounds, ...rest } = game;
+  return { ...rest, rounds: rounds.length };
+}
+
+function roundViews(game: IndexedGame): RoundView[] {
+  return game.rounds.map((round) => ({
+    ...round,
+    submissions: game.submissions
+      .filter((submission) => submission.round === round.round)
+      .map(({ player, block, timestamp }) => ({ player, block, timestamp })),
+  }));
+}
+
+function integerParam(query: URLSearchParams, name: string, fallback: number, max = Number.MAX_SAFE_INTEGER) {
+  const raw = query.get(name);
+  if (raw === null) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw new HttpError(400, `${name} must be an integer between 0 and ${max}`);
+  }
+  return value;
+}
+
+function paginate<T>(items: T[], query: URLSearchParams): Page<T> {
+  const offset = integerParam(query, "offset", 0);
+  const limit = integerParam(query, "limit", 20, MAX_PAGE_SIZE);
+  return { items: items.slice(offset, offset + limit), total: items.length, offset, limit };
+}
+
+function statusFilter(query: URLSearchParams): GameStatus | undefined {
+  const status = query.get("status");
+  if (status === null) {
+    return undefined;
+  }
+  if (!STATUSES.includes(status as GameStatus)) {
+    throw new HttpError(400, `status must be one of ${STATUSES.join(", ")}`);
+  }
+  return status as GameStatus;
+}
+
+// Private games are served nowhere, as the house keeps them out of its own listings; the API does not know who is
+// invited, so it cannot tell who may see one.
+function findGame(snapshot: Snapshot, id: string): IndexedGame {
+  const game = /^\d+$/.test(id) ? snapshot.games[id] : undefined;
+  if (!game || game.isPrivate) {
+    throw new HttpError(404, `Game ${id} not found`);
+  }
+  return game;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+  response.end(JSON.stringify(body));
+}
+
+function route(snapshot: Snapshot, path: string[], query: URLSearchParams): unknown {
+  const games = Object.values(snapshot.games)
+    .filter((game) => !game.isPrivate)
+    .sort((a, b) => a.gameId - b.gameId);
+
+  if (path.length === 1 && path[0] === "games") {
+    const status = statusFilter(query);
+    return paginate(games.filter((game) => !status || game.status === status).map(listItem), query);
+  }
+  if (path.length === 2 && path[0] === "games") {
+    return findGame(snapshot, path[1]);
+  }
+  if (path.length === 3 && path[0] === "games" && path[2] === "rounds") {
+    return paginate(roundViews(findGame(snapshot, path[1])), query);
+  }
+  if (path.length === 3 && path[0] === "players" && path[2] === "games") {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(path[1])) {
+      throw new HttpError(400, `${path[1]} is not an address`);
+    }
+    const player = path[1].toLowerCase();
+    const seated = games.filter((game) => game.players.some((address) => address.toLowerCase() === player));
+    const status = statusFilter(query);
+    return paginate(seated.filter((game) => !status || game.status === status).map(listItem), query);
+  }
+  throw new HttpError(404, "Not found");
+}
+
+// Holds the response open and writes one SSE message per indexed event of a public game or of no game, optionally
+// only for one game.
+function streamEvents(
+  indexer: HouseIndexer,
+  request: IncomingMessage,
+  response: ServerResponse,
+  query: URLSearchParams,
+) {
+  const game = query.get("game");
+  response.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.write(`: indexed up to block ${indexer.snapshot.lastBlock}\n\n`);
+
+  const unsubscribe = indexer.subscribe((event) => {
+    const hidden = event.gameId !== undefined && indexer.snapshot.games[event.gameId]?.isPrivate;
+    if (!hidden && (game === null || String(event.gameId) === game)) {
+      response.write(`event: ${event.name}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+  });
+  request.on("close", unsubscribe);
+}
+
+export function createHouseApi(indexer: HouseIndexer): Server {
+  return createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const path = url.pathname.split("/").filter(Boolean);
+
+    if (request.method !== "GET") {
+      sendJson(response, 405, { error: "Only GET is supported" });
+      return;
+    }
+    if (path.length === 1 && path[0] === "events") {
+      streamEvents(indexer, request, response, url.searchParams);
+      return;
+    }
+
+    try {
+      sendJson(response, 200, route(indexer.snapshot, path, url.searchParams));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+      } else {
+        console.error(error);
+        sendJson(response, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,328 @@
+import { Contract, EventLog } from "ethers";
+import type { InterfaceAbi, Provider } from "ethers";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+// Replays HonestHouse events into a JSON snapshot that can be queried offline. The snapshot records the last indexed
+// block, so a restarted indexer picks up where it stopped.
+
+// Longest wait between retries of a failing sync while following.
+const MAX_RETRY_MS = 60_000;
+
+export type GameStatus = "open" | "active" | "finished" | "cancelled";
+
+export type IndexedSubmission = {
+  round: number;
+  player: string;
+  block: number;
+  timestamp: number;
+};
+
+export type IndexedRound = {
+  round: number;
+  block: number;
+  timestamp: number;
+};
+
+export type IndexedGame = {
+  gameId: number;
+  creator: string;
+  status: GameStatus;
+  // Addresses currently seated, in the order they joined.
+  players: string[];
+  // Private games stay out of the public game list, as they stay out of the house's own listings.
+  isPrivate: boolean;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  settled: boolean;
+  winner?: string;
+  draw?: boolean;
+  timeoutClaims: number;
+  revealed: boolean;
+  submissions: IndexedSubmission[];
+  rounds: IndexedRound[];
+};
+
+export type Snapshot = {
+  contract: string;
+  chainId: number;
+  // Last block whose events are in the snapshot; indexing resumes at the next one.
+  lastBlock: number;
+  games: Record<string, IndexedGame>;
+};
+
+export type IndexStats = {
+  games: number;
+  open: number;
+  active: number;
+  finished: number;
+  cancelled: number;
+  finishedSince: number;
+  averageRounds: number;
+  submissions: number;
+};
+
+type HouseEvent = {
+  name: string;
+  args: Record<string, unknown>;
+  block: number;
+  timestamp: number;
+  // Read from the house for GameCreated, whose event does not say whether the game is private.
+  isPrivate?: boolean;
+};
+
+// What subscribers hear about each indexed event; the snapshot already holds the new state.
+export type IndexedEvent = {
+  name: string;
+  gameId?: number;
+  block: number;
+};
+
+export function emptySnapshot(contract: string, chainId: number, fromBlock: number): Snapshot {
+  return { contract, chainId, lastBlock: fromBlock - 1, games: {} };
+}
+
+// Folds one event into the snapshot. Events must arrive in chain order. Events of games created before the indexed
+// range, and events without a game, leave the snapshot alone.
+export function applyEvent(snapshot: Snapshot, event: HouseEvent) {
+  const gameId = Number(event.args.gameId);
+  const game = snapshot.games[gameId];
+  const player = event.args.player as string;
+  if (!game && event.name !== "GameCreated") {
+    return;
+  }
+
+  switch (event.name) {
+    case "GameCreated": {
+      const creator = event.args.creator as string;
+      snapshot.games[gameId] = {
+        gameId,
+        creator,
+        status: "open",
+        players: [creator],
+        isPrivate: event.isPrivate ?? false,
+        createdAt: event.timestamp,
+        settled: false,
+        timeoutClaims: 0,
+        revealed: false,
+        submissions: [],
+        rounds: [],
+      };
+      break;
+    }
+    case "PlayerJoined":
+      game.players.push(player);
+      break;
+    case "PlayerLeft":
+      game.players = game.players.filter((seated) => seated !== player);
+      break;
+    case "GameCancelled":
+      game.status = "cancelled";
+      game.finishedAt = event.timestamp;
+      break;
+    case "GameStarted":
+      game.status = "active";
+      game.startedAt = event.timestamp;
+      break;
+    case "CoinsSubmitted":
+      game.submissions.push({
+        round: game.rounds.length + 1,
+        player,
+        block: event.block,
+        timestamp: event.timestamp,
+      });
+      break;
+    case "RoundResolved":
+      game.rounds.push({ round: Number(event.args.round), block: event.block, timestamp: event.timestamp });
+      break;
+    case "GameFinished":
+      game.status = "finished";
+      game.finishedAt = event.timestamp;
+      break;
+    case "GameSettled":
+      game.settled = true;
+      game.draw = Boolean(event.args.draw);
+      game.winner = game.draw ? undefined : (event.args.winner as string);
+      break;
+    case "TimeoutClaimed":
+      game.timeoutClaims++;
+      break;
+    case "GameRevealed":
+      game.revealed = true;
+      break;
+  }
+}
+
+export function summarize(snapshot: Snapshot, since: number): IndexStats {
+  const games = Object.values(snapshot.games);
+  const finished = games.filter((game) => game.status === "finished");
+  const count = (status: GameStatus) => games.filter((game) => game.status === status).length;
+  return {
+    games: games.length,
+    open: count("open"),
+    active: count("active"),
+    finished: finished.length,
+    cancelled: count("cancelled"),
+    finishedSince: finished.filter((game) => (game.finishedAt ?? 0) >= since).length,
+    averageRounds:
+      finished.length === 0 ? 0 : finished.reduce((sum, game) => sum + game.rounds.length, 0) / finished.length,
+    submissions: games.reduce((sum, game) => sum + game.submissions.length, 0),
+  };
+}
+
+// Resolves after `ms`, or as soon as the signal aborts, so a stopped follower does not sit out its wait.
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+// Keeps the snapshot in a single JSON file, replaced atomically so an interrupted write never corrupts it.
+export class JsonSnapshotStore {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  load(): Snapshot | undefined {
+    if (!existsSync(this.path)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(this.path, "utf8")) as Snapshot;
+  }
+
+  save(snapshot: Snapshot) {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.tmp`;
+    writeFileSync(temporary, JSON.stringify(snapshot, null, 2));
+    renameSync(temporary, this.path);
+  }
+}
+
+export class HouseIndexer {
+  readonly snapshot: Snapshot;
+  private readonly contract: Contract;
+  private readonly provider: Provider;
+  private readonly store: JsonSnapshotStore;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly listeners = new Set<(event: IndexedEvent) => void>();
+  private readonly log: (message: string) => void;
+
+  constructor(options: {
+    address: string;
+    abi: InterfaceAbi;
+    provider: Provider;
+    store: JsonSnapshotStore;
+    chainId: number;
+    // Block the contract was deployed in; only used when the store is empty.
+    fromBlock: number;
+    batchSize?: number;
+    // Blocks to stay behind the head, so short reorgs do not leave stale events in the snapshot.
+    confirmations?: number;
+    log?: (message: string) => void;
+  }) {
+    this.contract = new Contract(options.address, options.abi, options.provider);
+    this.provider = options.provider;
+    this.store = options.store;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.log = options.log ?? (() => {});
+
+    const stored = options.store.load();
+    if (stored && (stored.contract !== options.address || stored.chainId !== options.chainId)) {
+      throw new Error(`${options.store.path} indexes ${stored.contract} on chain ${stored.chainId}`);
+    }
+    this.snapshot = stored ?? emptySnapshot(options.address, options.chainId, options.fromBlock);
+  }
+
+  // Indexes every block up to the confirmed head, saving a checkpoint after each batch. Returns the events applied.
+  // A batch is fetched in full before any of it is applied, so a failed sync leaves the snapshot at its last
+  // checkpoint and the retry does not apply an event twice.
+  async sync(): Promise<number> {
+    const head = (await this.provider.getBlockNumber()) - this.confirmations;
+    let applied = 0;
+    while (this.snapshot.lastBlock < head) {
+      const from = this.snapshot.lastBlock + 1;
+      const to = Math.min(from + this.batchSize - 1, head);
+      const events = await this.fetchEvents(from, to);
+
+      events.forEach((event) => applyEvent(this.snapshot, event));
+      this.snapshot.lastBlock = to;
+      this.store.save(this.snapshot);
+      applied += events.length;
+
+      for (const event of events) {
+        const indexed = {
+          name: event.name,
+          gameId: event.args.gameId === undefined ? undefined : Number(event.args.gameId),
+          block: event.block,
+        };
+        this.listeners.forEach((listener) => listener(indexed));
+      }
+    }
+    return applied;
+  }
+
+  // Calls the listener after each event is folded into the snapshot. Returns a function that unsubscribes.
+  subscribe(listener: (event: IndexedEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Keeps syncing until the signal aborts. A failed sync is logged and retried after twice the previous wait, up to
+  // MAX_RETRY_MS, so a flaky node does not stop the indexer; the checkpoint keeps the events already applied.
+  async follow(intervalMs: number, signal: AbortSignal, onSync?: (applied: number) => void) {
+    let waitMs = intervalMs;
+    while (!signal.aborted) {
+      try {
+        const applied = await this.sync();
+        onSync?.(applied);
+        waitMs = intervalMs;
+      } catch (error) {
+        waitMs = Math.min(waitMs * 2, Math.max(MAX_RETRY_MS, intervalMs));
+        const message = error instanceof Error ? error.message : String(error);
+        this.log(`Indexer sync failed: ${message}, retrying in ${Math.round(waitMs / 1000)}s`);
+      }
+      await sleep(waitMs, signal);
+    }
+  }
+
+  // Reads a block range into events, with block timestamps and whether each created game is private.
+  private async fetchEvents(from: number, to: number): Promise<HouseEvent[]> {
+    const logs = await this.contract.queryFilter("*", from, to);
+    const timestamps = new Map<number, number>();
+    const events: HouseEvent[] = [];
+    for (const log of logs) {
+      if (!(log instanceof EventLog)) {
+        continue;
+      }
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+      const args = log.args.toObject();
+      events.push({
+        name: log.eventName,
+        args,
+        block: log.blockNumber,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        isPrivate:
+          log.eventName === "GameCreated" ? (await this.contract.getGameSummary(args.gameId)).isPrivate : undefined,
+      });
+    }
+    return events;
+  }
+}
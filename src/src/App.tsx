@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
@@ -5,16 +6,28 @@ import '@rainbow-me/rainbowkit/styles.css';
 
 import { config } from './config/wagmi';
 import { GameApp } from './components/GameApp';
+import { Leaderboard } from './components/Leaderboard';
 
 const queryClient = new QueryClient();
 
+// Pages live in the hash, so invite links keep their query string and no server routing is needed.
+const currentPage = () => (window.location.hash === '#/leaderboard' ? 'leaderboard' : 'play');
+
 function App() {
+  const [page, setPage] = useState(currentPage);
+
+  useEffect(() => {
+    const onHashChange = () => setPage(currentPage());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
           <div className="root-shell">
-            <GameApp />
+            {page === 'leaderboard' ? <Leaderboard /> : <GameApp />}
           </div>
         </RainbowKitProvider>
       </QueryClientProvider>
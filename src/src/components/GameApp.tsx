@@ -1,68 +1,216 @@
-import { useEffect, useMemo, useState } from 'react';
-import { Contract } from 'ethers';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Contract, formatEther, parseEther } from 'ethers';
+import type { Signer } from 'ethers';
 import { useAccount, useReadContract } from 'wagmi';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { useZamaInstance } from '../hooks/useZamaInstance';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { type HouseEvent, useHouseEvents } from '../hooks/useHouseEvents';
+import {
+  CONTRACT_ADDRESS,
+  CONTRACT_ABI,
+  RATINGS_ABI,
+  RATINGS_ADDRESS,
+  TOURNAMENT_ABI,
+  TOURNAMENT_ADDRESS,
+} from '../config/contracts';
+import {
+  DecryptionSession,
+  END_RULE_COINS,
+  END_RULE_ROUNDS,
+  HonestHouseClient,
+  HonestHouseError,
+  LISTING_ACTIVE,
+  LISTING_ALL,
+  LISTING_FINISHED,
+  LISTING_OPEN,
+  RatingsClient,
+  SPECTATE_AFTER_GAME,
+  TournamentClient,
+  ZERO_ADDRESS,
+  ZERO_HASH,
+  parseGameCounts,
+  parseGamePage,
+  parseGameResult,
+  parsePlayerGamePage,
+  parsePlayerState,
+  parseRoundRecord,
+  parseRoundStatus,
+  parseSeries,
+  parseSummary,
+  spectatorRound,
+} from '@client/HonestHouseClient';
+import type { GameRules, GameSummary, RoundRecord, Series } from '@client/HonestHouseClient';
 import { Header } from './Header';
+import { TournamentBracket } from './TournamentBracket';
 import '../styles/GameApp.css';
 
-type GameSummary = {
-  gameId: number;
-  players: string[];
-  started: boolean;
-  finished: boolean;
-  round: number;
+const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+];
+const CONFIDENTIAL_TOKEN_ABI = [
+  'function isOperator(address holder, address spender) view returns (bool)',
+  'function setOperator(address operator, uint64 until)',
+];
+const OPERATOR_WINDOW_SECONDS = 24 * 60 * 60;
+const MAX_ROUND = 255;
+const PAGE_SIZES = [5, 10, 25];
+const MY_MATCHES_PAGE_SIZE = 5;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+// Invite links open the app on ?game=<id>&invite=<signature>, with the creator's signature passed on to joinGame.
+const inviteFromUrl = () => {
+  const params = new URLSearchParams(window.location.search);
+  const gameId = Number(params.get('game'));
+  const signature = params.get('invite');
+  return Number.isInteger(gameId) && gameId > 0 && signature ? { gameId, signature } : null;
 };
 
-type PlayerState = {
-  coins: string;
-  score: string;
-  hasSubmitted: boolean;
-  seat: number;
+// Replays revealed rounds with the contract's scoring: a unique top contribution takes the reward, tied top seats
+// split it when the rules say so.
+const replayRounds = (rules: GameRules, rounds: number[][]) => {
+  const scores = new Array<number>(rules.seatCount).fill(0);
+  return rounds.map((contributions) => {
+    const highest = Math.max(...contributions);
+    const topCount = contributions.filter((value) => value === highest).length;
+    const reward =
+      topCount === 1 ? rules.roundReward : rules.splitTies ? Math.floor(rules.roundReward / topCount) : 0;
+    const winners = contributions.map((value) => value === highest && reward > 0);
+    winners.forEach((won, seat) => {
+      if (won) scores[seat] += reward;
+    });
+    return { contributions, winners, scores: [...scores] };
+  });
 };
 
-const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
 
 export function GameApp() {
   const { address, isConnected } = useAccount();
   const signerPromise = useEthersSigner();
   const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
   const contractReady = CONTRACT_ADDRESS !== ZERO_ADDRESS;
+  // One session per relayer instance, so the wallet signs the decryption request once and not on every click.
+  const decryptionSession = useMemo(
+    () => (instance ? new DecryptionSession({ fhevm: instance, contractAddress: CONTRACT_ADDRESS }) : null),
+    [instance],
+  );
 
-  const [selectedGameId, setSelectedGameId] = useState<number | null>(null);
+  const [invite] = useState(inviteFromUrl);
+  const [selectedGameId, setSelectedGameId] = useState<number | null>(() => invite?.gameId ?? null);
   const [submitAmount, setSubmitAmount] = useState<string>('');
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [decrypting, setDecrypting] = useState(false);
-  const [decrypted, setDecrypted] = useState<{ coins?: string; score?: string } | null>(null);
+  const [decrypted, setDecrypted] = useState<{ coins?: string; score?: string; lastContribution?: string } | null>(
+    null,
+  );
+  const [decryptingHistory, setDecryptingHistory] = useState(false);
+  const [checkingBid, setCheckingBid] = useState(false);
+  const [bidCovered, setBidCovered] = useState<boolean | null>(null);
+  const [decryptedHistory, setDecryptedHistory] = useState<Record<string, string | boolean>>({});
+  const [endRule, setEndRule] = useState<number>(END_RULE_ROUNDS);
+  const [maxRounds, setMaxRounds] = useState<string>('10');
+  const [startingCoins, setStartingCoins] = useState<string>('100');
+  const [roundReward, setRoundReward] = useState<string>('10');
+  const [splitTies, setSplitTies] = useState(false);
+  const [seatCount, setSeatCount] = useState<string>('2');
+  const [turnTimeoutMinutes, setTurnTimeoutMinutes] = useState<string>('0');
+  const [forfeitOnTimeout, setForfeitOnTimeout] = useState(false);
+  const [stakeAmount, setStakeAmount] = useState<string>('0');
+  const [stakeToken, setStakeToken] = useState<string>('');
+  const [coinToken, setCoinToken] = useState<string>('');
+  const [revealAfterGame, setRevealAfterGame] = useState(false);
+  const [spectators, setSpectators] = useState<'none' | 'delayed' | 'after'>('none');
+  const [spectatorDelay, setSpectatorDelay] = useState<string>('1');
+  const [spectating, setSpectating] = useState(false);
+  const [spectated, setSpectated] = useState<{ gameId: number; round: number; scores: string[] } | null>(null);
+  const [autoStart, setAutoStart] = useState(true);
+  const [quickMatchGameId, setQuickMatchGameId] = useState<number | null>(null);
+  const [privateGame, setPrivateGame] = useState(false);
+  const [invitees, setInvitees] = useState<string>('');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [replayStep, setReplayStep] = useState(0);
+  const [revealing, setRevealing] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  const [settling, setSettling] = useState(false);
+  const [listing, setListing] = useState<number>(LISTING_OPEN);
+  const [pageSize, setPageSize] = useState<number>(PAGE_SIZES[1]);
+  const [page, setPage] = useState(0);
+  const [myPage, setMyPage] = useState(0);
+
+  // Contract events refresh the affected reads; interval polling only runs while the subscription is down.
+  const { live: eventsLive } = useHouseEvents(contractReady, handleHouseEvent);
+  const fallbackPoll = (interval: number) => (eventsLive ? false : interval);
 
   const { data: gamesData, refetch: refetchGames, isPending: loadingGames } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
-    functionName: 'getAllGames',
+    functionName: 'getGames',
+    args: [BigInt(page * pageSize), BigInt(pageSize), listing],
     query: {
-      refetchInterval: 8000,
+      refetchInterval: fallbackPoll(8000),
       enabled: contractReady,
     },
   });
 
-  const games: GameSummary[] = useMemo(() => {
-    if (!gamesData) return [];
-    return (gamesData as any[]).map((g: any) => {
-      const gameId = g.gameId ?? g[0];
-      const players = g.players ?? g[1];
-      const started = g.started ?? g[2];
-      const finished = g.finished ?? g[3];
-      const round = g.round ?? g[4];
-      return {
-        gameId: Number(gameId),
-        players: players as string[],
-        started: Boolean(started),
-        finished: Boolean(finished),
-        round: Number(round),
-      };
-    });
-  }, [gamesData]);
+  const { data: countsData, refetch: refetchCounts } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getGameCounts',
+    query: {
+      refetchInterval: fallbackPoll(8000),
+      enabled: contractReady,
+    },
+  });
+
+  const gameCounts = useMemo(
+    () => (countsData ? parseGameCounts(countsData) : { open: 0, active: 0, finished: 0 }),
+    [countsData],
+  );
+
+  const { games, total: totalGames } = useMemo(
+    () => (gamesData ? parseGamePage(gamesData) : { games: [], total: 0 }),
+    [gamesData],
+  );
+  const pageCount = Math.max(1, Math.ceil(totalGames / pageSize));
+
+  useEffect(() => {
+    if (page > 0 && page >= pageCount) {
+      setPage(pageCount - 1);
+    }
+  }, [page, pageCount]);
+
+  const { data: myGamesData, refetch: refetchMyGames } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getGamesByPlayer',
+    args: address ? [address, BigInt(myPage * MY_MATCHES_PAGE_SIZE), BigInt(MY_MATCHES_PAGE_SIZE)] : undefined,
+    query: {
+      refetchInterval: fallbackPoll(8000),
+      enabled: !!address && contractReady,
+    },
+  });
+
+  const { games: myGames, total: myGamesTotal } = useMemo(
+    () => (myGamesData ? parsePlayerGamePage(myGamesData) : { games: [], total: 0 }),
+    [myGamesData],
+  );
+  const myPageCount = Math.max(1, Math.ceil(myGamesTotal / MY_MATCHES_PAGE_SIZE));
+
+  useEffect(() => {
+    if (myPage > 0 && myPage >= myPageCount) {
+      setMyPage(myPageCount - 1);
+    }
+  }, [myPage, myPageCount]);
 
   useEffect(() => {
     if (!selectedGameId && games.length > 0) {
@@ -83,19 +231,11 @@ export function GameApp() {
     args: activeGameId ? [activeGameId] : undefined,
     query: {
       enabled: !!activeGameId && contractReady,
-      refetchInterval: 6000,
+      refetchInterval: fallbackPoll(6000),
     },
   });
 
-  const summary: GameSummary | null = summaryData
-    ? {
-        gameId: Number((summaryData as any).gameId ?? (summaryData as any)[0]),
-        players: ((summaryData as any).players ?? (summaryData as any)[1]) as string[],
-        started: Boolean((summaryData as any).started ?? (summaryData as any)[2]),
-        finished: Boolean((summaryData as any).finished ?? (summaryData as any)[3]),
-        round: Number((summaryData as any).round ?? (summaryData as any)[4]),
-      }
-    : null;
+  const summary: GameSummary | null = summaryData ? parseSummary(summaryData) : null;
 
   const { data: playerStateData, refetch: refetchPlayerState } = useReadContract({
     address: CONTRACT_ADDRESS,
@@ -104,21 +244,11 @@ export function GameApp() {
     args: activeGameId && address ? [activeGameId, address] : undefined,
     query: {
       enabled: !!activeGameId && !!address && contractReady,
-      refetchInterval: 6000,
+      refetchInterval: fallbackPoll(6000),
     },
   });
 
-  const playerState: PlayerState | null = playerStateData
-    ? (() => {
-        const data: any = playerStateData;
-        return {
-          coins: (data.coins ?? data[0]) as string,
-          score: (data.score ?? data[1]) as string,
-          hasSubmitted: Boolean(data.hasSubmitted ?? data[2]),
-          seat: Number(data.seat ?? data[3]),
-        };
-      })()
-    : null;
+  const playerState = playerStateData ? parsePlayerState(playerStateData) : null;
 
   const { data: roundData, refetch: refetchRound } = useReadContract({
     address: CONTRACT_ADDRESS,
@@ -127,68 +257,414 @@ export function GameApp() {
     args: activeGameId ? [activeGameId] : undefined,
     query: {
       enabled: !!activeGameId && contractReady,
-      refetchInterval: 6000,
+      refetchInterval: fallbackPoll(6000),
     },
   });
 
-  const roundStatus = roundData
-    ? (() => {
-        const data: any = roundData;
-        return {
-          round: Number(data.round ?? data[0]),
-          started: Boolean(data.started ?? data[1]),
-          finished: Boolean(data.finished ?? data[2]),
-          firstSubmitted: Boolean(data.firstSubmitted ?? data[3]),
-          secondSubmitted: Boolean(data.secondSubmitted ?? data[4]),
-          firstContribution: (data.firstContribution ?? data[5]) as string,
-          secondContribution: (data.secondContribution ?? data[6]) as string,
-        };
-      })()
-    : null;
-
-  const joinableGames = games.filter(
-    (g) => !g.finished && !g.started && (g.players[0] === ZERO_ADDRESS || g.players[1] === ZERO_ADDRESS),
-  );
+  const roundStatus = roundData ? parseRoundStatus(roundData) : null;
+
+  const { data: resultData, refetch: refetchResult } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getGameResult',
+    args: activeGameId ? [activeGameId] : undefined,
+    query: {
+      enabled: !!activeGameId && contractReady,
+      refetchInterval: fallbackPoll(6000),
+    },
+  });
+
+  const gameResult = resultData ? parseGameResult(resultData) : null;
+
+  const { data: historyData, refetch: refetchHistory } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getRoundHistory',
+    args: activeGameId ? [activeGameId, 1, MAX_ROUND] : undefined,
+    query: {
+      enabled: !!activeGameId && contractReady,
+      refetchInterval: fallbackPoll(12000),
+    },
+  });
+
+  const roundHistory: RoundRecord[] = historyData ? historyData.map(parseRoundRecord) : [];
+
+  const replay = summary
+    ? replayRounds(
+        summary.rules,
+        roundHistory.filter((record) => record.revealed).map((record) => record.revealedContributions),
+      )
+    : [];
+
+  useEffect(() => {
+    setReplayStep(0);
+    setBidCovered(null);
+    setInviteLink(null);
+  }, [selectedGameId]);
+
+  const canReveal =
+    !!summary &&
+    summary.finished &&
+    summary.rules.revealAfterGame &&
+    roundHistory.some((record) => !record.revealed);
+
+  const { data: withdrawableData, refetch: refetchWithdrawable } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'pendingWithdrawals',
+    args: summary && address ? [summary.rules.stakeToken as `0x${string}`, address] : undefined,
+    query: {
+      enabled: !!summary && !!address && contractReady && summary.rules.stakeAmount > 0n,
+      refetchInterval: fallbackPoll(6000),
+    },
+  });
+
+  const withdrawable = withdrawableData ? BigInt(withdrawableData as bigint) : 0n;
+
+  const { data: seriesData, refetch: refetchSeries } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getSeries',
+    args: activeGameId ? [activeGameId] : undefined,
+    query: {
+      enabled: !!activeGameId && contractReady,
+      refetchInterval: fallbackPoll(12000),
+    },
+  });
+
+  const series = seriesData ? parseSeries(seriesData) : null;
+
+  const isJoinable = (game: GameSummary) =>
+    !game.cancelled && !game.started && game.players.some((player) => player === ZERO_ADDRESS);
+
+  const gameStatus = (game: GameSummary) =>
+    game.cancelled ? 'Cancelled' : game.finished ? 'Finished' : game.started ? 'In progress' : 'Open';
 
   const isPlayer =
     summary && address ? summary.players.some((player) => player.toLowerCase() === address.toLowerCase()) : false;
 
+  // Spectators see every seat's score after the latest round the game's spectator delay has made old enough.
+  const visibleRound = summary ? spectatorRound(summary.rules, roundHistory.length, summary.finished) : 0;
+  const shownSpectator = spectated && summary && spectated.gameId === summary.gameId ? spectated : null;
+
   const canStart =
     !!summary &&
     isPlayer &&
     !summary.started &&
-    summary.players[0] !== ZERO_ADDRESS &&
-    summary.players[1] !== ZERO_ADDRESS;
+    !summary.cancelled &&
+    summary.players.every((player) => player !== ZERO_ADDRESS);
 
   const canSubmit = !!summary && summary.started && !summary.finished && isPlayer;
 
+  // A quick match we opened waits until PlayerJoined fills its last seat, or until we cancel it.
+  const waitingForOpponents =
+    quickMatchGameId !== null &&
+    summary?.gameId === quickMatchGameId &&
+    !summary.cancelled &&
+    summary.players.includes(ZERO_ADDRESS);
+
+  const canLeave = !!summary && isPlayer && !summary.started && !summary.cancelled;
+
+  const isCreator = !!summary && !!address && summary.players[0].toLowerCase() === address.toLowerCase();
+
+  const canInvite = !!summary && summary.isPrivate && isCreator && !summary.started && !summary.cancelled;
+
+  const canClaimCoins =
+    !!summary &&
+    !!playerState &&
+    summary.rules.coinToken !== ZERO_ADDRESS &&
+    (summary.finished || summary.cancelled) &&
+    !playerState.coinsClaimed;
+
+  const secondsLeft = roundStatus && roundStatus.deadline > 0 ? Math.max(roundStatus.deadline - now, 0) : null;
+
+  const canClaimTimeout =
+    canSubmit &&
+    !!roundStatus &&
+    !!playerState &&
+    secondsLeft === 0 &&
+    playerState.hasSubmitted &&
+    roundStatus.submitted.some((flag) => !flag);
+
+  const canCheckCoins =
+    !!summary &&
+    !!gameResult &&
+    summary.started &&
+    !summary.finished &&
+    summary.rules.endRule === END_RULE_COINS &&
+    gameResult.coinsExhausted !== ZERO_HASH;
+
+  const describeEndRule = (game: GameSummary) =>
+    game.rules.endRule === END_RULE_COINS
+      ? 'Ends when every player spent all coins'
+      : `Ends after ${game.rules.maxRounds} rounds`;
+
+  const describeRules = (rules: GameRules) =>
+    `${rules.startingCoins} coins · +${rules.roundReward} per round · ${rules.splitTies ? 'ties split' : 'ties void'}` +
+    (rules.turnTimeout > 0
+      ? ` · ${Math.round(rules.turnTimeout / 60)} min turns${rules.forfeitOnTimeout ? ' (forfeit)' : ''}`
+      : '') +
+    (rules.revealAfterGame ? ' · public replay' : '') +
+    (rules.spectatorDelay === SPECTATE_AFTER_GAME
+      ? ' · spectators after the game'
+      : rules.spectatorDelay > 0
+        ? ` · spectators ${rules.spectatorDelay} rounds behind`
+        : '') +
+    (rules.stakeAmount > 0n ? ` · ${formatStake(rules.stakeToken, rules.stakeAmount)} stake` : '') +
+    (rules.coinToken !== ZERO_ADDRESS ? ` · coins from ${formatAddress(rules.coinToken)}` : '');
+
+  const formatStake = (token: string, amount: bigint) =>
+    token === ZERO_ADDRESS ? `${formatEther(amount)} ETH` : `${amount.toString()} × ${formatAddress(token)}`;
+
+  const escrowedStake = (game: GameSummary) =>
+    game.rules.stakeAmount * BigInt(game.players.filter((player) => player !== ZERO_ADDRESS).length);
+
+  const seatLabel = (seat: number) => `Player ${String.fromCharCode(65 + seat)}`;
+
   const formatAddress = (value: string) => {
     if (!value || value === ZERO_ADDRESS) return 'Waiting for player';
     return `${value.slice(0, 6)}...${value.slice(-4)}`;
   };
 
+  // Tallies a rematch series from the connected player's side when they play in it.
+  const describeSeries = (score: Series) => {
+    const mine = score.players.findIndex((player) => !!address && player.toLowerCase() === address.toLowerCase());
+    const draws = score.draws === 1 ? '1 draw' : `${score.draws} draws`;
+    if (mine < 0) {
+      const [first, second] = score.players.map(formatAddress);
+      return `${first} ${score.wins[0]} - ${score.wins[1]} ${second} · ${draws}`;
+    }
+    return `You ${score.wins[mine]} - ${score.wins[1 - mine]} ${formatAddress(score.players[1 - mine])} · ${draws}`;
+  };
+
   const refreshAll = async () => {
-    await Promise.all([refetchGames(), refetchSummary(), refetchPlayerState(), refetchRound()]);
+    await Promise.all([
+      refetchGames(),
+      refetchCounts(),
+      refetchMyGames(),
+      refetchSummary(),
+      refetchPlayerState(),
+      refetchRound(),
+      refetchResult(),
+      refetchWithdrawable(),
+      refetchHistory(),
+      refetchSeries(),
+    ]);
   };
 
+  // Declared as a function so the event subscription above can reference it before the reads it refreshes.
+  function handleHouseEvent(event: HouseEvent) {
+    const isActive = event.gameId === selectedGameId;
+    const isMe = !!address && event.player?.toLowerCase() === address.toLowerCase();
+    const isMine = isMe || myGames.some((game) => game.gameId === event.gameId);
+
+    if (event.name === 'PlayerJoined' && event.gameId === quickMatchGameId && !isMe) {
+      setStatusMessage(`A player joined game #${event.gameId}.`);
+    }
+
+    switch (event.name) {
+      case 'GameCreated':
+      case 'PlayerJoined':
+      case 'PlayerLeft':
+      case 'GameCancelled':
+        refetchGames();
+        refetchCounts();
+        if (isActive) refetchSummary();
+        if (isMine) refetchMyGames();
+        if (isMe && event.name === 'PlayerLeft') refetchWithdrawable();
+        break;
+      case 'GameStarted':
+        refetchGames();
+        refetchCounts();
+        if (isActive) {
+          refetchSummary();
+          refetchRound();
+          refetchPlayerState();
+        }
+        if (isMine) refetchMyGames();
+        break;
+      case 'CoinsSubmitted':
+        if (isActive) refetchRound();
+        if (isActive && isMe) refetchPlayerState();
+        if (isMe) refetchMyGames();
+        break;
+      case 'RoundResolved':
+        if (isActive) {
+          refetchSummary();
+          refetchRound();
+          refetchPlayerState();
+          refetchHistory();
+        }
+        if (isMine) refetchMyGames();
+        break;
+      case 'GameFinished':
+        refetchGames();
+        refetchCounts();
+        if (isActive) {
+          refetchSummary();
+          refetchResult();
+        }
+        if (isMine) refetchMyGames();
+        break;
+      case 'GameSettled':
+        if (isActive) {
+          refetchSummary();
+          refetchResult();
+          refetchWithdrawable();
+          refetchSeries();
+        }
+        if (isMine) refetchMyGames();
+        break;
+      case 'RematchProposed':
+        if (isActive) refetchSeries();
+        if (isMine) refetchMyGames();
+        if (isMine && !isMe) setStatusMessage(`Your opponent in game #${event.gameId} proposed a rematch.`);
+        break;
+    }
+  }
+
   const setError = (message: string) => {
     setStatusMessage(message);
     setTimeout(() => setStatusMessage(''), 4000);
   };
 
-  const parseGameIdFromReceipt = (receipt: any, contract: Contract): number | null => {
-    if (!receipt?.logs) return null;
-    for (const log of receipt.logs) {
-      try {
-        const parsed = contract.interface.parseLog(log);
-        if (parsed?.name === 'GameCreated') {
-          return Number(parsed.args?.gameId);
-        }
-      } catch {
-        continue;
-      }
+  // Shows the contract's require message when a call reverted, the generic message otherwise.
+  const failureMessage = (error: unknown, fallback: string) =>
+    error instanceof HonestHouseError && error.reason ? `${fallback} ${error.reason}.` : fallback;
+
+  const requireSigner = async (): Promise<Signer> => {
+    const signer = await signerPromise;
+    if (!signer) throw new Error('Signer unavailable');
+    return signer;
+  };
+
+  const houseClient = async () => {
+    const signer = await requireSigner();
+    return new HonestHouseClient({
+      address: CONTRACT_ADDRESS,
+      abi: CONTRACT_ABI,
+      runner: signer,
+      fhevm: instance ?? undefined,
+      session: decryptionSession ?? undefined,
+    });
+  };
+
+  // Counts a settled game on the leaderboard. Anyone can record it later, so a failure here is only logged.
+  const recordRating = async (gameId: bigint) => {
+    if (RATINGS_ADDRESS === ZERO_ADDRESS) return;
+    try {
+      const signer = await signerPromise;
+      if (!signer) return;
+      setStatusMessage('Recording the result on the leaderboard...');
+      await new RatingsClient({ address: RATINGS_ADDRESS, abi: RATINGS_ABI, runner: signer }).recordGame(gameId);
+    } catch (error) {
+      console.error('Could not record the game on the leaderboard:', error);
     }
-    return null;
+  };
+
+  // Settling advances a tournament winner through the settlement hook; this reports a match game whose hook failed.
+  // Anyone can report it later, so a failure here is only logged.
+  const reportTournamentGame = async (gameId: bigint) => {
+    if (TOURNAMENT_ADDRESS === ZERO_ADDRESS) return;
+    try {
+      const signer = await signerPromise;
+      if (!signer) return;
+      const tournaments = new TournamentClient({ address: TOURNAMENT_ADDRESS, abi: TOURNAMENT_ABI, runner: signer });
+      if (!(await tournaments.getMatchOf(gameId))) return;
+      setStatusMessage('Reporting the result to the tournament...');
+      await tournaments.reportGame(gameId);
+    } catch (error) {
+      console.error('Could not report the game to its tournament:', error);
+    }
+  };
+
+  // The client sends ETH stakes along as the transaction value, token stakes need an allowance first.
+  const prepareStake = async (signer: Signer, rules: GameRules) => {
+    if (rules.stakeAmount === 0n || rules.stakeToken === ZERO_ADDRESS) return;
+    const token = new Contract(rules.stakeToken, ERC20_ABI, signer);
+    const allowance: bigint = await token.allowance(await signer.getAddress(), CONTRACT_ADDRESS);
+    if (allowance < rules.stakeAmount) {
+      setStatusMessage('Approving the stake token...');
+      const approval = await token.approve(CONTRACT_ADDRESS, rules.stakeAmount);
+      await approval.wait();
+    }
+  };
+
+  // Token-backed coins are pulled by the house, which needs to be an operator of the confidential token.
+  const prepareCoins = async (signer: Signer, rules: GameRules) => {
+    if (rules.coinToken === ZERO_ADDRESS) return;
+    const token = new Contract(rules.coinToken, CONFIDENTIAL_TOKEN_ABI, signer);
+    if (await token.isOperator(await signer.getAddress(), CONTRACT_ADDRESS)) return;
+    setStatusMessage('Approving the house to fund your seat...');
+    const until = Math.floor(Date.now() / 1000) + OPERATOR_WINDOW_SECONDS;
+    const approval = await token.setOperator(CONTRACT_ADDRESS, until);
+    await approval.wait();
+  };
+
+  // Validates the rule form; reports the first problem and returns null when something is off.
+  const formRules = (): GameRules | null => {
+    const rounds = endRule === END_RULE_ROUNDS ? parseInt(maxRounds, 10) : 0;
+    if (endRule === END_RULE_ROUNDS && (!Number.isInteger(rounds) || rounds < 1 || rounds > 255)) {
+      setError('Rounds must be between 1 and 255.');
+      return null;
+    }
+    const coins = parseInt(startingCoins, 10);
+    const reward = parseInt(roundReward, 10);
+    if (!Number.isInteger(coins) || coins < 1 || !Number.isInteger(reward) || reward < 1) {
+      setError('Starting coins and round reward must be positive integers.');
+      return null;
+    }
+    const seats = parseInt(seatCount, 10);
+    if (!Number.isInteger(seats) || seats < 2 || seats > 8) {
+      setError('Seats must be between 2 and 8.');
+      return null;
+    }
+    const timeoutMinutes = parseInt(turnTimeoutMinutes, 10);
+    if (!Number.isInteger(timeoutMinutes) || timeoutMinutes < 0) {
+      setError('Turn timeout must be zero or a positive number of minutes.');
+      return null;
+    }
+    const token = stakeToken.trim() || ZERO_ADDRESS;
+    if (!ADDRESS_PATTERN.test(token)) {
+      setError('Stake token must be an address, or empty for ETH.');
+      return null;
+    }
+    const coinsFrom = coinToken.trim() || ZERO_ADDRESS;
+    if (!ADDRESS_PATTERN.test(coinsFrom)) {
+      setError('Coin token must be an address, or empty for free coins.');
+      return null;
+    }
+    let stake: bigint;
+    try {
+      stake = token === ZERO_ADDRESS ? parseEther(stakeAmount || '0') : BigInt(stakeAmount || '0');
+    } catch {
+      setError('Enter a valid stake amount.');
+      return null;
+    }
+    if (stake < 0n || (token !== ZERO_ADDRESS && stake === 0n)) {
+      setError('Token stakes need a positive amount.');
+      return null;
+    }
+    const delay = parseInt(spectatorDelay, 10);
+    if (spectators === 'delayed' && (!Number.isInteger(delay) || delay < 1 || delay >= SPECTATE_AFTER_GAME)) {
+      setError(`Spectator delay must be between 1 and ${SPECTATE_AFTER_GAME - 1} rounds.`);
+      return null;
+    }
+    return {
+      startingCoins: coins,
+      roundReward: reward,
+      maxRounds: rounds,
+      splitTies,
+      endRule,
+      turnTimeout: timeoutMinutes * 60,
+      forfeitOnTimeout,
+      seatCount: seats,
+      stakeToken: token,
+      stakeAmount: stake,
+      coinToken: coinsFrom,
+      revealAfterGame,
+      spectatorDelay: spectators === 'delayed' ? delay : spectators === 'after' ? SPECTATE_AFTER_GAME : 0,
+    };
   };
 
   const handleCreateGame = async () => {
@@ -200,28 +676,66 @@ export function GameApp() {
       setError('Set the deployed contract address before creating a game.');
       return;
     }
+    const rules = formRules();
+    if (!rules) return;
+    const allowlist = privateGame ? invitees.split(/[\s,]+/).filter(Boolean) : [];
+    if (allowlist.some((invitee) => !ADDRESS_PATTERN.test(invitee))) {
+      setError('Invitees must be addresses separated by commas or spaces.');
+      return;
+    }
     try {
       setStatusMessage('Creating a new encrypted match...');
-      const signer = await signerPromise;
-      if (!signer) throw new Error('Signer unavailable');
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.createGame();
-      const receipt = await tx.wait();
-      const newGameId = parseGameIdFromReceipt(receipt, contract);
+      const client = await houseClient();
+      const signer = await requireSigner();
+      await prepareStake(signer, rules);
+      await prepareCoins(signer, rules);
+      setStatusMessage('Creating a new encrypted match...');
+      const newGameId = await client.createGame(rules, { private: privateGame, invitees: allowlist });
       await refreshAll();
-      if (newGameId) {
-        setSelectedGameId(newGameId);
-        setStatusMessage(`New game #${newGameId} created`);
-      } else {
-        setStatusMessage('Game created');
-      }
+      setSelectedGameId(newGameId);
+      setStatusMessage(
+        privateGame
+          ? `Private game #${newGameId} created. Share an invite link from the game panel.`
+          : `New game #${newGameId} created`,
+      );
     } catch (error) {
       console.error(error);
-      setError('Failed to create game.');
+      setError(failureMessage(error, 'Failed to create game.'));
     }
   };
 
-  const handleJoinGame = async (gameId: number) => {
+  // Joins the oldest waiting game with the form's rules, or opens one and waits for opponents to be paired in.
+  const handlePlayNow = async () => {
+    if (!isConnected) {
+      setError('Connect your wallet first.');
+      return;
+    }
+    if (!contractReady) {
+      setError('Set the deployed contract address before playing.');
+      return;
+    }
+    const rules = formRules();
+    if (!rules) return;
+    try {
+      setStatusMessage('Looking for an opponent...');
+      const client = await houseClient();
+      const signer = await requireSigner();
+      await prepareStake(signer, rules);
+      await prepareCoins(signer, rules);
+      setStatusMessage('Looking for an opponent...');
+      const { gameId, created } = await client.quickMatch(rules, autoStart);
+      setSelectedGameId(gameId);
+      setQuickMatchGameId(created ? gameId : null);
+      await refreshAll();
+      setStatusMessage(created ? `Opened game #${gameId}, waiting for opponents.` : `Matched into game #${gameId}.`);
+    } catch (error) {
+      console.error(error);
+      setError(failureMessage(error, 'Could not find a match.'));
+    }
+  };
+
+  const handleJoinGame = async (game: GameSummary) => {
+    const gameId = game.gameId;
     if (!isConnected) {
       setError('Connect your wallet first.');
       return;
@@ -232,17 +746,58 @@ export function GameApp() {
     }
     try {
       setStatusMessage(`Joining game #${gameId}...`);
-      const signer = await signerPromise;
-      if (!signer) throw new Error('Signer unavailable');
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.joinGame(BigInt(gameId));
-      await tx.wait();
+      const client = await houseClient();
+      const signer = await requireSigner();
+      await prepareStake(signer, game.rules);
+      await prepareCoins(signer, game.rules);
+      await client.joinGame(gameId, invite?.gameId === gameId ? invite.signature : undefined);
       setSelectedGameId(gameId);
       await refreshAll();
       setStatusMessage(`Joined game #${gameId}`);
     } catch (error) {
       console.error(error);
-      setError('Could not join game.');
+      setError(failureMessage(error, 'Could not join game.'));
+    }
+  };
+
+  // Signs an invite anyone holding the link can use and tries to copy the link to the clipboard.
+  const handleCreateInviteLink = async () => {
+    if (!activeGameId || !canInvite) return;
+    try {
+      setStatusMessage('Sign the invite in your wallet...');
+      const client = await houseClient();
+      const signature = await client.signInvite(activeGameId);
+      const link = `${window.location.origin}${window.location.pathname}?game=${activeGameId}&invite=${signature}`;
+      setInviteLink(link);
+      try {
+        await navigator.clipboard.writeText(link);
+        setStatusMessage('Invite link copied. Anyone holding it can take a seat.');
+      } catch {
+        setStatusMessage('Invite link ready. Anyone holding it can take a seat.');
+      }
+    } catch (error) {
+      console.error(error);
+      setError(failureMessage(error, 'Could not sign the invite.'));
+    }
+  };
+
+  // Opens the linked rematch; the opponent confirms by joining it from the finished game.
+  const handleRematch = async () => {
+    if (!activeGameId || !summary) return;
+    try {
+      setStatusMessage('Proposing a rematch...');
+      const client = await houseClient();
+      const signer = await requireSigner();
+      await prepareStake(signer, summary.rules);
+      await prepareCoins(signer, summary.rules);
+      setStatusMessage('Proposing a rematch...');
+      const rematchId = await client.rematch(activeGameId);
+      setSelectedGameId(rematchId);
+      await refreshAll();
+      setStatusMessage(`Rematch #${rematchId} proposed. It starts once your opponent joins.`);
+    } catch (error) {
+      console.error(error);
+      setError(failureMessage(error, 'Could not propose a rematch.'));
     }
   };
 
@@ -254,16 +809,27 @@ export function GameApp() {
     }
     try {
       setStatusMessage('Starting match...');
-      const signer = await signerPromise;
-      if (!signer) throw new Error('Signer unavailable');
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.startGame(activeGameId);
-      await tx.wait();
+      const client = await houseClient();
+      await client.startGame(activeGameId);
       await refreshAll();
       setStatusMessage('Game started');
     } catch (error) {
       console.error(error);
-      setError('Unable to start game.');
+      setError(failureMessage(error, 'Unable to start game.'));
+    }
+  };
+
+  const handleLeaveGame = async () => {
+    if (!activeGameId || !canLeave || !summary || !address) return;
+    try {
+      setStatusMessage(isCreator ? 'Cancelling your game...' : 'Leaving the game...');
+      const client = await houseClient();
+      await client.leaveGame(activeGameId);
+      await refreshAll();
+      setStatusMessage(isCreator ? `Game #${summary.gameId} cancelled` : `Left game #${summary.gameId}`);
+    } catch (error) {
+      console.error(error);
+      setError(failureMessage(error, 'Could not leave the game.'));
     }
   };
 
@@ -287,70 +853,290 @@ export function GameApp() {
     }
     try {
       setStatusMessage('Encrypting and sending your coins...');
-      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
-      input.add32(amount);
-      const encrypted = await input.encrypt();
+      const client = await houseClient();
+      await client.submitCoins(activeGameId, amount);
+
+      setSubmitAmount('');
+      setDecrypted(null);
+      setBidCovered(null);
+      await refreshAll();
+      setStatusMessage('Coins submitted for this round. Check your bid to make sure it was covered.');
+    } catch (error) {
+      console.error(error);
+      setError(failureMessage(error, 'Failed to submit coins.'));
+    }
+  };
 
+  const handleClaimTimeout = async () => {
+    if (!activeGameId || !canClaimTimeout) return;
+    try {
+      setStatusMessage('Claiming the stalled round...');
       const signer = await signerPromise;
       if (!signer) throw new Error('Signer unavailable');
       const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.submitCoins(activeGameId, encrypted.handles[0], encrypted.inputProof);
+      const tx = await contract.claimTimeout(activeGameId);
       await tx.wait();
+      if (summary?.rules.forfeitOnTimeout) {
+        await recordRating(activeGameId);
+        await reportTournamentGame(activeGameId);
+      }
+      await refreshAll();
+      setStatusMessage(
+        summary?.rules.forfeitOnTimeout ? 'Your opponent forfeited the game.' : 'Round resolved without your opponent.',
+      );
+    } catch (error) {
+      console.error(error);
+      setError('Could not claim the timeout.');
+    }
+  };
 
-      setSubmitAmount('');
-      setDecrypted(null);
+  const handleConfirmCoinsExhausted = async () => {
+    if (!activeGameId || !gameResult || !canCheckCoins) return;
+    if (!instance) {
+      setError('Encryption service still loading.');
+      return;
+    }
+    setSettling(true);
+    try {
+      setStatusMessage('Checking whether every player spent all coins...');
+      const decryptedFlag = await instance.publicDecrypt([gameResult.coinsExhausted]);
+      if (!decryptedFlag.clearValues[gameResult.coinsExhausted]) {
+        setStatusMessage('Players still have coins left.');
+        return;
+      }
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Signer unavailable');
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.confirmCoinsExhausted(
+        activeGameId,
+        decryptedFlag.abiEncodedClearValues,
+        decryptedFlag.decryptionProof,
+      );
+      await tx.wait();
       await refreshAll();
-      setStatusMessage('Coins submitted for this round.');
+      setStatusMessage('Coins exhausted, the game is finished.');
     } catch (error) {
       console.error(error);
-      setError('Failed to submit coins.');
+      setError('Could not confirm the coin balances.');
+    } finally {
+      setSettling(false);
     }
   };
 
-  const handleDecrypt = async () => {
-    if (!playerState || !instance || !address) {
-      setError('Missing encryption context to decrypt.');
+  const handleSettle = async () => {
+    if (!activeGameId || !gameResult || !gameResult.finished || gameResult.settled) return;
+    if (!instance) {
+      setError('Encryption service still loading.');
       return;
     }
-    if (!contractReady) {
-      setError('Set the deployed contract address before decrypting.');
+    setSettling(true);
+    try {
+      setStatusMessage('Decrypting the final result...');
+      const decryptedOutcome = await instance.publicDecrypt([gameResult.encryptedOutcome]);
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Signer unavailable');
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.settleGame(
+        activeGameId,
+        decryptedOutcome.abiEncodedClearValues,
+        decryptedOutcome.decryptionProof,
+      );
+      await tx.wait();
+      await recordRating(activeGameId);
+      await reportTournamentGame(activeGameId);
+      await refreshAll();
+      setStatusMessage('Result settled on-chain.');
+    } catch (error) {
+      console.error(error);
+      setError('Could not settle the result.');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!summary || withdrawable === 0n) return;
+    try {
+      setStatusMessage('Withdrawing your stake...');
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Signer unavailable');
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.withdraw(summary.rules.stakeToken);
+      await tx.wait();
+      await refreshAll();
+      setStatusMessage(`Withdrew ${formatStake(summary.rules.stakeToken, withdrawable)}`);
+    } catch (error) {
+      console.error(error);
+      setError('Could not withdraw.');
+    }
+  };
+
+  const handleClaimCoins = async () => {
+    if (!activeGameId || !canClaimCoins) return;
+    try {
+      setStatusMessage('Returning your coins to the token...');
+      const signer = await signerPromise;
+      if (!signer) throw new Error('Signer unavailable');
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.claimCoins(activeGameId);
+      await tx.wait();
+      await refreshAll();
+      setStatusMessage('Coins returned to your confidential balance.');
+    } catch (error) {
+      console.error(error);
+      setError('Could not claim your coins.');
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!activeGameId || !canReveal) return;
+    if (!instance) {
+      setError('Encryption service still loading.');
       return;
     }
-    setDecrypting(true);
+    const pending = roundHistory.filter((record) => !record.revealed);
+    const fromRound = pending[0].round;
+    const toRound = pending[pending.length - 1].round;
+    setRevealing(true);
     try {
-      const keypair = instance.generateKeypair();
-      const contractAddresses = [CONTRACT_ADDRESS];
-      const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '7';
-      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
+      setStatusMessage('Opening the rounds for public decryption...');
       const signer = await signerPromise;
       if (!signer) throw new Error('Signer unavailable');
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const openTx = await contract.openReveal(activeGameId, fromRound, toRound);
+      await openTx.wait();
 
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message,
+      setStatusMessage('Decrypting every contribution...');
+      const decryptedRounds = await instance.publicDecrypt(pending.flatMap((record) => record.contributions));
+      const tx = await contract.confirmReveal(
+        activeGameId,
+        fromRound,
+        toRound,
+        decryptedRounds.abiEncodedClearValues,
+        decryptedRounds.decryptionProof,
       );
+      await tx.wait();
+      await refreshAll();
+      setReplayStep(0);
+      setStatusMessage('All rounds revealed.');
+    } catch (error) {
+      console.error(error);
+      setError('Could not reveal the rounds.');
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  // Everything the connected player may read in this game, decrypted together in one userDecrypt call.
+  const myHandles = playerState
+    ? [
+        playerState.coins,
+        playerState.score,
+        playerState.lastCanSpend,
+        roundStatus?.contributions[playerState.seat] ?? ZERO_HASH,
+        ...roundHistory.flatMap((record) => [record.contributions[playerState.seat], record.won[playerState.seat]]),
+      ]
+    : [];
+  const myHandlesKey = myHandles.join(',');
 
-      const decryptedMap = await instance.userDecrypt(
-        [
-          { handle: playerState.coins, contractAddress: CONTRACT_ADDRESS },
-          { handle: playerState.score, contractAddress: CONTRACT_ADDRESS },
-        ],
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contractAddresses,
-        address,
-        startTimeStamp,
-        durationDays,
+  const decryptMine = async () => {
+    if (!playerState || !instance || !address) throw new Error('Missing encryption context');
+    const [coins, score, lastCanSpend, lastContribution, ...history] = myHandles;
+    const decryptedMap = await (await houseClient()).userDecrypt(myHandles);
+
+    setDecrypted({
+      coins: String(decryptedMap[coins]),
+      score: String(decryptedMap[score]),
+      lastContribution: lastContribution === ZERO_HASH ? undefined : String(decryptedMap[lastContribution]),
+    });
+    setBidCovered(lastCanSpend === ZERO_HASH ? null : Boolean(decryptedMap[lastCanSpend]));
+    const entries: Record<string, string | boolean> = {};
+    for (const handle of history) {
+      const value = decryptedMap[handle];
+      entries[handle] = typeof value === 'boolean' ? value : String(value ?? '0');
+    }
+    setDecryptedHistory((previous) => ({ ...previous, ...entries }));
+  };
+
+  // Once the player has signed, new handles (a resolved round, a fresh submission) are decrypted without asking again.
+  const decryptMineRef = useRef(decryptMine);
+  useEffect(() => {
+    decryptMineRef.current = decryptMine;
+  });
+  useEffect(() => {
+    if (!address || !decryptionSession?.isActive(address) || !myHandlesKey) return;
+    decryptMineRef.current().catch((error) => console.error('Could not refresh your decrypted stats:', error));
+  }, [address, decryptionSession, myHandlesKey]);
+
+  const handleCheckBid = async () => {
+    if (!playerState || playerState.lastCanSpend === ZERO_HASH) return;
+    setCheckingBid(true);
+    try {
+      await decryptMine();
+    } catch (error) {
+      console.error(error);
+      setError('Could not check your last bid.');
+    } finally {
+      setCheckingBid(false);
+    }
+  };
+
+  const handleDecryptHistory = async () => {
+    if (!playerState || !instance || !address || roundHistory.length === 0) return;
+    setDecryptingHistory(true);
+    try {
+      await decryptMine();
+      setStatusMessage(`Decrypted ${roundHistory.length} rounds of history.`);
+    } catch (error) {
+      console.error(error);
+      setError('Could not decrypt the round history.');
+    } finally {
+      setDecryptingHistory(false);
+    }
+  };
+
+  // Registers the connected wallet as a spectator the first time, then decrypts every seat's score after the
+  // latest round the game lets spectators see.
+  const handleSpectate = async () => {
+    if (!summary || !instance || !address) return;
+    setSpectating(true);
+    try {
+      const client = await houseClient();
+      setStatusMessage('Unlocking the scores...');
+      let scores;
+      try {
+        scores = await client.spectateScores(summary.gameId);
+      } catch (error) {
+        if (!(error instanceof HonestHouseError) || error.reason !== 'Not a spectator') throw error;
+        setStatusMessage('Registering as a spectator...');
+        await client.registerSpectator(summary.gameId);
+        scores = await client.spectateScores(summary.gameId);
+      }
+      setSpectated({ gameId: summary.gameId, round: scores.round, scores: scores.scores.map(String) });
+      setStatusMessage(
+        scores.round > 0 ? `Decrypted the scores after round ${scores.round}.` : 'No round is visible yet.',
       );
+    } catch (error) {
+      console.error(error);
+      setError(failureMessage(error, 'Could not unlock the scores.'));
+    } finally {
+      setSpectating(false);
+    }
+  };
 
-      setDecrypted({
-        coins: decryptedMap[playerState.coins as string] || '0',
-        score: decryptedMap[playerState.score as string] || '0',
-      });
-      setStatusMessage('Decrypted your private stats.');
+  const handleDecrypt = async () => {
+    if (!playerState || !instance || !address) {
+      setError('Missing encryption context to decrypt.');
+      return;
+    }
+    if (!contractReady) {
+      setError('Set the deployed contract address before decrypting.');
+      return;
+    }
+    setDecrypting(true);
+    try {
+      await decryptMine();
+      setStatusMessage('Decrypted your private stats. They now update every round without another signature.');
     } catch (error) {
       console.error(error);
       setError('Could not decrypt balances.');
@@ -368,17 +1154,154 @@ export function GameApp() {
             <p className="eyebrow">Encrypted duel</p>
             <h2>Play fair with hidden coin offers</h2>
             <p className="lede">
-              Spin up a two-player match, submit Zama-encrypted bids, and earn points for the boldest moves. Balances and
-              scores stay private, only you can decrypt them.
+              Spin up a match for two to eight players, submit Zama-encrypted bids, and earn points for the boldest moves.
+              Balances and scores stay private, only you can decrypt them.
             </p>
+            <div className="rules-grid">
+              <label className="input-label">
+                Seats
+                <input type="number" min="2" max="8" value={seatCount} onChange={(e) => setSeatCount(e.target.value)} />
+              </label>
+              <label className="input-label">
+                Starting coins
+                <input type="number" min="1" value={startingCoins} onChange={(e) => setStartingCoins(e.target.value)} />
+              </label>
+              <label className="input-label">
+                Reward per round
+                <input type="number" min="1" value={roundReward} onChange={(e) => setRoundReward(e.target.value)} />
+              </label>
+              <label className="input-label">
+                End rule
+                <select value={endRule} onChange={(e) => setEndRule(Number(e.target.value))}>
+                  <option value={END_RULE_ROUNDS}>Fixed rounds</option>
+                  <option value={END_RULE_COINS}>Until coins run out</option>
+                </select>
+              </label>
+              {endRule === END_RULE_ROUNDS ? (
+                <label className="input-label">
+                  Rounds
+                  <input
+                    type="number"
+                    min="1"
+                    max="255"
+                    value={maxRounds}
+                    onChange={(e) => setMaxRounds(e.target.value)}
+                  />
+                </label>
+              ) : null}
+              <label className="input-label">
+                Turn timeout (min)
+                <input
+                  type="number"
+                  min="0"
+                  value={turnTimeoutMinutes}
+                  onChange={(e) => setTurnTimeoutMinutes(e.target.value)}
+                />
+              </label>
+              <label className="checkbox-label">
+                <input type="checkbox" checked={splitTies} onChange={(e) => setSplitTies(e.target.checked)} />
+                Ties split the reward
+              </label>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={forfeitOnTimeout}
+                  onChange={(e) => setForfeitOnTimeout(e.target.checked)}
+                />
+                Stalling forfeits the game
+              </label>
+              <label className="input-label">
+                Stake per player
+                <input type="text" value={stakeAmount} onChange={(e) => setStakeAmount(e.target.value)} />
+              </label>
+              <label className="input-label">
+                Stake token (empty for ETH)
+                <input
+                  type="text"
+                  placeholder="0x..."
+                  value={stakeToken}
+                  onChange={(e) => setStakeToken(e.target.value)}
+                />
+              </label>
+              <label className="input-label">
+                Coin token (empty for free coins)
+                <input
+                  type="text"
+                  placeholder="0x..."
+                  value={coinToken}
+                  onChange={(e) => setCoinToken(e.target.value)}
+                />
+              </label>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={revealAfterGame}
+                  onChange={(e) => setRevealAfterGame(e.target.checked)}
+                />
+                Reveal all rounds after the game
+              </label>
+              <label className="input-label">
+                Spectators
+                <select
+                  value={spectators}
+                  onChange={(e) => setSpectators(e.target.value as 'none' | 'delayed' | 'after')}
+                >
+                  <option value="none">No spectators</option>
+                  <option value="delayed">See scores a few rounds late</option>
+                  <option value="after">See scores once the game ends</option>
+                </select>
+              </label>
+              {spectators === 'delayed' ? (
+                <label className="input-label">
+                  Rounds spectators stay behind
+                  <input
+                    type="number"
+                    min="1"
+                    max={SPECTATE_AFTER_GAME - 1}
+                    value={spectatorDelay}
+                    onChange={(e) => setSpectatorDelay(e.target.value)}
+                  />
+                </label>
+              ) : null}
+              <label className="checkbox-label">
+                <input type="checkbox" checked={autoStart} onChange={(e) => setAutoStart(e.target.checked)} />
+                Play now starts the game once every seat is filled
+              </label>
+              <label className="checkbox-label">
+                <input type="checkbox" checked={privateGame} onChange={(e) => setPrivateGame(e.target.checked)} />
+                Create game as invite only, hidden from the lobby
+              </label>
+              {privateGame ? (
+                <label className="input-label">
+                  Invitees (optional, or share an invite link later)
+                  <input
+                    type="text"
+                    placeholder="0x..., 0x..."
+                    value={invitees}
+                    onChange={(e) => setInvitees(e.target.value)}
+                  />
+                </label>
+              ) : null}
+            </div>
             <div className="cta-row">
-              <button className="primary-button" onClick={handleCreateGame} disabled={!isConnected}>
+              <button className="primary-button" onClick={handlePlayNow} disabled={!isConnected || waitingForOpponents}>
+                {waitingForOpponents ? 'Waiting for opponents...' : 'Play now'}
+              </button>
+              <button className="secondary-button" onClick={handleCreateGame} disabled={!isConnected}>
                 Create game
               </button>
               <button className="ghost-button" onClick={refreshAll}>
                 Refresh data
               </button>
             </div>
+            {waitingForOpponents ? (
+              <div className="cta-row">
+                <span className="pill">Waiting for opponents in game #{quickMatchGameId}</span>
+                <button className="ghost-button" onClick={handleLeaveGame}>
+                  Cancel
+                </button>
+              </div>
+            ) : null}
             {statusMessage ? <p className="status-message">{statusMessage}</p> : null}
             {!contractReady ? (
               <p className="error-text">
@@ -398,30 +1321,151 @@ export function GameApp() {
             <div className="card-header">
               <div>
                 <p className="eyebrow">Game lobby</p>
-                <h3>Join an open match</h3>
+                <h3>Browse matches</h3>
+              </div>
+              <div className="pill subtle">
+                {gameCounts.open} open · {gameCounts.active} active · {gameCounts.finished} finished
               </div>
             </div>
+            <div className="lobby-controls">
+              <select
+                value={listing}
+                onChange={(e) => {
+                  setListing(Number(e.target.value));
+                  setPage(0);
+                }}
+              >
+                <option value={LISTING_OPEN}>Open</option>
+                <option value={LISTING_ACTIVE}>Active</option>
+                <option value={LISTING_FINISHED}>Finished</option>
+                <option value={LISTING_ALL}>All</option>
+              </select>
+              <select
+                value={pageSize}
+                onChange={(e) => {
+                  setPageSize(Number(e.target.value));
+                  setPage(0);
+                }}
+              >
+                {PAGE_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {size} per page
+                  </option>
+                ))}
+              </select>
+            </div>
             {loadingGames ? (
-              <p className="muted">Loading available games...</p>
-            ) : joinableGames.length === 0 ? (
-              <p className="muted">No open matches yet. Create one to get started.</p>
+              <p className="muted">Loading games...</p>
+            ) : games.length === 0 ? (
+              <p className="muted">
+                {listing === LISTING_OPEN ? 'No open matches yet. Create one to get started.' : 'No matches here yet.'}
+              </p>
             ) : (
               <div className="game-list">
-                {joinableGames.map((game) => (
+                {games.map((game) => (
                   <div key={game.gameId} className="game-row">
                     <div>
                       <p className="game-id">Game #{game.gameId}</p>
-                      <p className="muted">{game.players.filter((p) => p !== ZERO_ADDRESS).length}/2 players</p>
+                      <p className="muted">
+                        {gameStatus(game)} · {game.players.filter((p) => p !== ZERO_ADDRESS).length}/
+                        {game.players.length} players
+                      </p>
+                      <p className="muted">{describeRules(game.rules)}</p>
                     </div>
-                    <button className="secondary-button" onClick={() => handleJoinGame(game.gameId)}>
-                      Join
-                    </button>
+                    {isJoinable(game) ? (
+                      <button className="secondary-button" onClick={() => handleJoinGame(game)}>
+                        Join
+                      </button>
+                    ) : (
+                      <button className="ghost-button" onClick={() => setSelectedGameId(game.gameId)}>
+                        View
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
             )}
+            {pageCount > 1 ? (
+              <div className="lobby-pager">
+                <button className="ghost-button" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                  Previous
+                </button>
+                <p className="muted">
+                  Page {page + 1} of {pageCount}
+                </p>
+                <button className="ghost-button" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                  Next
+                </button>
+              </div>
+            ) : null}
           </div>
 
+          {address ? (
+            <div className="card">
+              <div className="card-header">
+                <div>
+                  <p className="eyebrow">My matches</p>
+                  <h3>Games you are seated in</h3>
+                </div>
+                <div className="pill subtle">{myGamesTotal} total</div>
+              </div>
+              {myGames.length === 0 ? (
+                <p className="muted">You have not joined any match yet.</p>
+              ) : (
+                <div className="game-list">
+                  {myGames.map((game) => (
+                    <div key={game.gameId} className="game-row">
+                      <div>
+                        <p className="game-id">Game #{game.gameId}</p>
+                        <p className="muted">
+                          {gameStatus(game)}
+                          {game.started && !game.finished ? ` · round ${game.round}` : ''}
+                        </p>
+                      </div>
+                      <div className="row-actions">
+                        {game.awaitingSubmission ? <span className="pill">Your turn</span> : null}
+                        <button className="ghost-button" onClick={() => setSelectedGameId(game.gameId)}>
+                          Open
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {myPageCount > 1 ? (
+                <div className="lobby-pager">
+                  <button className="ghost-button" disabled={myPage === 0} onClick={() => setMyPage(myPage - 1)}>
+                    Previous
+                  </button>
+                  <p className="muted">
+                    Page {myPage + 1} of {myPageCount}
+                  </p>
+                  <button
+                    className="ghost-button"
+                    disabled={myPage + 1 >= myPageCount}
+                    onClick={() => setMyPage(myPage + 1)}
+                  >
+                    Next
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          {TOURNAMENT_ADDRESS !== ZERO_ADDRESS ? (
+            <TournamentBracket
+              houseClient={houseClient}
+              prepareSeat={async (rules) => {
+                const signer = await requireSigner();
+                await prepareStake(signer, rules);
+                await prepareCoins(signer, rules);
+              }}
+              onOpenGame={setSelectedGameId}
+              onStatus={setStatusMessage}
+              onFailure={(error, fallback) => setError(failureMessage(error, fallback))}
+            />
+          ) : null}
+
           <div className="card">
             <div className="card-header">
               <div>
@@ -430,9 +1474,13 @@ export function GameApp() {
               </div>
               <div className="pill">
                 {summary
-                  ? summary.started
-                    ? 'In progress'
-                    : 'Waiting to start'
+                  ? summary.cancelled
+                    ? 'Cancelled'
+                    : summary.finished
+                      ? 'Finished'
+                      : summary.started
+                        ? 'In progress'
+                        : 'Waiting to start'
                   : 'Select a game'}
               </div>
             </div>
@@ -451,29 +1499,68 @@ export function GameApp() {
 
             {summary ? (
               <>
+                <div className="seat-list">
+                  {summary.players.map((player, seat) => (
+                    <div key={seat} className="seat-row">
+                      <p className="muted">{seatLabel(seat)}</p>
+                      <p className="mono">{formatAddress(player)}</p>
+                    </div>
+                  ))}
+                </div>
                 <div className="game-meta">
                   <div>
-                    <p className="muted">Player A</p>
-                    <p className="mono">{formatAddress(summary.players[0])}</p>
+                    <p className="muted">Round</p>
+                    <p className="mono">{summary.round}</p>
                   </div>
                   <div>
-                    <p className="muted">Player B</p>
-                    <p className="mono">{formatAddress(summary.players[1])}</p>
+                    <p className="muted">End rule</p>
+                    <p className="mono">{describeEndRule(summary)}</p>
                   </div>
                   <div>
-                    <p className="muted">Round</p>
-                    <p className="mono">{summary.round}</p>
+                    <p className="muted">Rules</p>
+                    <p className="mono">{describeRules(summary.rules)}</p>
+                  </div>
+                  <div>
+                    <p className="muted">Access</p>
+                    <p className="mono">{summary.isPrivate ? 'Invite only' : 'Public'}</p>
                   </div>
+                  {series && series.seriesId !== 0 ? (
+                    <div>
+                      <p className="muted">Series since game #{series.seriesId}</p>
+                      <p className="mono">{describeSeries(series)}</p>
+                    </div>
+                  ) : null}
                 </div>
 
                 <div className="actions-row">
+                  {!isPlayer && isJoinable(summary) ? (
+                    <button className="primary-button" onClick={() => handleJoinGame(summary)}>
+                      {invite?.gameId === summary.gameId ? 'Join with invite' : 'Join game'}
+                    </button>
+                  ) : null}
                   <button className="secondary-button" onClick={handleStartGame} disabled={!canStart}>
                     Start game
                   </button>
+                  {canInvite ? (
+                    <button className="ghost-button" onClick={handleCreateInviteLink}>
+                      Invite link
+                    </button>
+                  ) : null}
+                  {canLeave ? (
+                    <button className="ghost-button" onClick={handleLeaveGame}>
+                      {isCreator ? 'Cancel game' : 'Leave game'}
+                    </button>
+                  ) : null}
                   <button className="ghost-button" onClick={() => refreshAll()}>
                     Sync
                   </button>
                 </div>
+                {canInvite && inviteLink ? (
+                  <label className="input-label">
+                    Invite link
+                    <input type="text" readOnly value={inviteLink} onFocus={(e) => e.target.select()} />
+                  </label>
+                ) : null}
               </>
             ) : loadingSummary ? (
               <p className="muted">Loading game...</p>
@@ -508,10 +1595,39 @@ export function GameApp() {
             <button className="primary-button" onClick={handleSubmitCoins} disabled={!canSubmit || zamaLoading}>
               {zamaLoading ? 'Preparing encryption...' : 'Submit coins'}
             </button>
+            {playerState && playerState.lastCanSpend !== ZERO_HASH ? (
+              <div className="deadline-row">
+                <p className={bidCovered === false ? 'error-text' : 'muted'}>
+                  {bidCovered === null
+                    ? 'Only you can see whether your last bid was covered.'
+                    : bidCovered
+                      ? 'Your last bid was covered by your balance.'
+                      : 'Your bid exceeded your balance and was replaced with 0.'}
+                </p>
+                <button className="ghost-button" onClick={handleCheckBid} disabled={checkingBid || zamaLoading}>
+                  {checkingBid ? 'Checking...' : 'Check my bid'}
+                </button>
+              </div>
+            ) : null}
             {roundStatus ? (
               <div className="round-flags">
-                <span className={`flag ${roundStatus.firstSubmitted ? 'on' : ''}`}>Player A submitted</span>
-                <span className={`flag ${roundStatus.secondSubmitted ? 'on' : ''}`}>Player B submitted</span>
+                {roundStatus.submitted.map((flag, seat) => (
+                  <span key={seat} className={`flag ${flag ? 'on' : ''}`}>
+                    {seatLabel(seat)} submitted
+                  </span>
+                ))}
+              </div>
+            ) : null}
+            {secondsLeft !== null && !roundStatus?.finished ? (
+              <div className="deadline-row">
+                <p className="muted">
+                  {secondsLeft > 0 ? `Turn closes in ${formatCountdown(secondsLeft)}` : 'Turn deadline has passed'}
+                </p>
+                {canClaimTimeout ? (
+                  <button className="secondary-button" onClick={handleClaimTimeout}>
+                    {summary?.rules.forfeitOnTimeout ? 'Claim forfeit' : 'Resolve without opponent'}
+                  </button>
+                ) : null}
               </div>
             ) : null}
           </div>
@@ -544,15 +1660,266 @@ export function GameApp() {
                     <p className="muted">Decrypted score</p>
                     <p className="metric">{decrypted?.score ?? '•••'}</p>
                   </div>
+                  <div>
+                    <p className="muted">Last contribution</p>
+                    <p className="metric">{decrypted?.lastContribution ?? '•••'}</p>
+                  </div>
                 </div>
                 <button className="secondary-button" onClick={handleDecrypt} disabled={decrypting || zamaLoading}>
-                  {decrypting ? 'Decrypting...' : 'Decrypt my stats'}
+                  {decrypting
+                    ? 'Decrypting...'
+                    : address && decryptionSession?.isActive(address)
+                      ? 'Refresh my stats'
+                      : 'Decrypt my stats'}
                 </button>
               </>
             ) : (
               <p className="muted">Join a game to see your encrypted balances.</p>
             )}
           </div>
+
+          <div className="card">
+            <div className="card-header">
+              <div>
+                <p className="eyebrow">History</p>
+                <h3>Resolved rounds</h3>
+              </div>
+              <div className="pill subtle">{roundHistory.length} rounds</div>
+            </div>
+            {roundHistory.length === 0 ? (
+              <p className="muted">No round has been resolved yet.</p>
+            ) : (
+              <>
+                <table className="history-table">
+                  <thead>
+                    <tr>
+                      <th>Round</th>
+                      <th>Your contribution</th>
+                      <th>Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {roundHistory.map((record) => {
+                      const contribution = playerState
+                        ? decryptedHistory[record.contributions[playerState.seat]]
+                        : undefined;
+                      const won = playerState ? decryptedHistory[record.won[playerState.seat]] : undefined;
+                      return (
+                        <tr key={record.round}>
+                          <td>{record.round}</td>
+                          <td className="mono">{contribution ?? '•••'}</td>
+                          <td>{won === undefined ? '•••' : won ? 'Won' : 'Lost'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {playerState ? (
+                  <button
+                    className="secondary-button"
+                    onClick={handleDecryptHistory}
+                    disabled={decryptingHistory || zamaLoading}
+                  >
+                    {decryptingHistory ? 'Decrypting...' : 'Decrypt my history'}
+                  </button>
+                ) : (
+                  <p className="muted">Only seated players can decrypt their own entries.</p>
+                )}
+              </>
+            )}
+          </div>
+
+          {summary && !isPlayer ? (
+            <div className="card">
+              <div className="card-header">
+                <div>
+                  <p className="eyebrow">Spectator view</p>
+                  <h3>Scores by seat</h3>
+                </div>
+                <div className="pill subtle">
+                  {visibleRound > 0 ? `Visible through round ${visibleRound}` : 'No round visible'}
+                </div>
+              </div>
+              {summary.rules.spectatorDelay === 0 ? (
+                <p className="muted">This game does not allow spectators, so its scores stay with the players.</p>
+              ) : (
+                <>
+                  <p className="muted">
+                    {summary.rules.spectatorDelay === SPECTATE_AFTER_GAME
+                      ? 'Registered spectators can decrypt the scores once the game finishes.'
+                      : `Registered spectators can decrypt the scores ${summary.rules.spectatorDelay} rounds late, ` +
+                        'and all of them once the game finishes.'}
+                  </p>
+                  <div className="seat-list">
+                    {summary.players.map((player, seat) => (
+                      <div key={seat} className="seat-row">
+                        <p className="muted">
+                          {seatLabel(seat)} · {formatAddress(player)}
+                        </p>
+                        <p className="mono">{shownSpectator?.scores[seat] ?? '•••'}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {shownSpectator && shownSpectator.round > 0 ? (
+                    <p className="muted">Scores after round {shownSpectator.round}.</p>
+                  ) : null}
+                  <button
+                    className="secondary-button"
+                    onClick={handleSpectate}
+                    disabled={spectating || zamaLoading || visibleRound === 0}
+                  >
+                    {spectating ? 'Unlocking...' : `Decrypt scores after round ${visibleRound || 1}`}
+                  </button>
+                </>
+              )}
+            </div>
+          ) : null}
+
+          {summary && summary.finished && summary.rules.revealAfterGame ? (
+            <div className="card">
+              <div className="card-header">
+                <div>
+                  <p className="eyebrow">Replay</p>
+                  <h3>Revealed rounds</h3>
+                </div>
+                <div className="pill subtle">
+                  {replay.length > 0 ? `Round ${replayStep + 1} of ${replay.length}` : 'Not revealed'}
+                </div>
+              </div>
+              {replay.length > 0 && replay[replayStep] ? (
+                <>
+                  <table className="history-table">
+                    <thead>
+                      <tr>
+                        <th>Seat</th>
+                        <th>Contribution</th>
+                        <th>Score</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {replay[replayStep].contributions.map((contribution, seat) => (
+                        <tr key={seat}>
+                          <td>
+                            {seatLabel(seat)}
+                            {replay[replayStep].winners[seat] ? ' ★' : ''}
+                          </td>
+                          <td className="mono">{contribution}</td>
+                          <td className="mono">{replay[replayStep].scores[seat]}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="actions-row">
+                    <button
+                      className="ghost-button"
+                      onClick={() => setReplayStep((step) => Math.max(step - 1, 0))}
+                      disabled={replayStep === 0}
+                    >
+                      Previous
+                    </button>
+                    <button
+                      className="ghost-button"
+                      onClick={() => setReplayStep((step) => Math.min(step + 1, replay.length - 1))}
+                      disabled={replayStep >= replay.length - 1}
+                    >
+                      Next
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <p className="muted">This game allows a public reveal of every round once it is over.</p>
+              )}
+              {canReveal ? (
+                <button className="secondary-button" onClick={handleReveal} disabled={revealing || zamaLoading}>
+                  {revealing ? 'Revealing...' : 'Reveal all rounds'}
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+
+          <div className="card">
+            <div className="card-header">
+              <div>
+                <p className="eyebrow">Results</p>
+                <h3>Match outcome</h3>
+              </div>
+              <div className="pill subtle">
+                {summary ? (summary.settled ? 'Settled' : summary.finished ? 'Awaiting reveal' : 'Playing') : 'No game'}
+              </div>
+            </div>
+            {!summary ? (
+              <p className="muted">Pick a game to see its result.</p>
+            ) : summary.settled ? (
+              <div className="result-banner">
+                <p className="muted">Winner</p>
+                <p className="metric">
+                  {summary.winner === ZERO_ADDRESS
+                    ? 'Draw'
+                    : address && summary.winner.toLowerCase() === address.toLowerCase()
+                      ? 'You won'
+                      : formatAddress(summary.winner)}
+                </p>
+                <p className="muted">Only the winner was decrypted, final scores stay private.</p>
+                {isPlayer && summary.rules.seatCount === 2 ? (
+                  series?.rematchId ? (
+                    <button className="secondary-button" onClick={() => setSelectedGameId(series.rematchId)}>
+                      Open rematch #{series.rematchId}
+                    </button>
+                  ) : (
+                    <button className="primary-button" onClick={handleRematch}>
+                      Rematch
+                    </button>
+                  )
+                ) : null}
+              </div>
+            ) : summary.finished ? (
+              <>
+                <p className="muted">
+                  The game is over. Publicly decrypt the encrypted outcome to record the winner on-chain.
+                </p>
+                <button className="primary-button" onClick={handleSettle} disabled={settling || zamaLoading}>
+                  {settling ? 'Settling...' : 'Reveal winner'}
+                </button>
+              </>
+            ) : (
+              <>
+                <p className="muted">{describeEndRule(summary)}.</p>
+                {canCheckCoins ? (
+                  <button
+                    className="secondary-button"
+                    onClick={handleConfirmCoinsExhausted}
+                    disabled={settling || zamaLoading}
+                  >
+                    {settling ? 'Checking...' : 'Check if coins ran out'}
+                  </button>
+                ) : null}
+              </>
+            )}
+            {summary &&
+            summary.rules.stakeAmount > 0n &&
+            (withdrawable > 0n || !(summary.settled || summary.cancelled)) ? (
+              <div className="deadline-row">
+                <p className="muted">
+                  {withdrawable > 0n
+                    ? `${formatStake(summary.rules.stakeToken, withdrawable)} ready to withdraw`
+                    : `${formatStake(summary.rules.stakeToken, escrowedStake(summary))} in escrow until settlement`}
+                </p>
+                {withdrawable > 0n ? (
+                  <button className="secondary-button" onClick={handleWithdraw}>
+                    Withdraw
+                  </button>
+                ) : null}
+              </div>
+            ) : null}
+            {canClaimCoins ? (
+              <div className="deadline-row">
+                <p className="muted">Your unspent coins and winnings go back to your confidential token balance.</p>
+                <button className="secondary-button" onClick={handleClaimCoins}>
+                  Claim coins
+                </button>
+              </div>
+            ) : null}
+          </div>
         </section>
       </main>
     </div>
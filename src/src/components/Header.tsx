@@ -8,7 +8,11 @@ export function Header() {
         <div>
           <p className="header-flag">Honest House</p>
           <h1 className="header-title">Encrypted coin duel</h1>
-          <p className="header-copy">Two players, private bids, verifiable rewards secured by Zama FHE.</p>
+          <p className="header-copy">Two to eight players, private bids, verifiable rewards secured by Zama FHE.</p>
+          <nav className="header-nav">
+            <a href="#/">Play</a>
+            <a href="#/leaderboard">Leaderboard</a>
+          </nav>
         </div>
         <ConnectButton />
       </div>
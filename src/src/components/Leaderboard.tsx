@@ -0,0 +1,110 @@
+import { useAccount, useReadContract } from 'wagmi';
+import { RATINGS_ABI, RATINGS_ADDRESS } from '../config/contracts';
+import { ZERO_ADDRESS, parsePlayerStats, parseStanding } from '@client/HonestHouseClient';
+import type { PlayerStats } from '@client/HonestHouseClient';
+import { Header } from './Header';
+import '../styles/GameApp.css';
+
+const LEADERBOARD_SIZE = 25;
+const REFRESH_INTERVAL = 15000;
+
+const formatAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const formatRecord = (stats: PlayerStats) => `${stats.wins} W · ${stats.losses} L · ${stats.draws} D`;
+
+// Public records and Elo ratings from the Ratings contract, which counts settled games once they are recorded.
+export function Leaderboard() {
+  const { address } = useAccount();
+  const ratingsReady = RATINGS_ADDRESS !== ZERO_ADDRESS;
+
+  const { data: leaderboardData, isPending: loadingLeaderboard } = useReadContract({
+    address: RATINGS_ADDRESS,
+    abi: RATINGS_ABI,
+    functionName: 'getLeaderboard',
+    args: [BigInt(LEADERBOARD_SIZE)],
+    query: {
+      enabled: ratingsReady,
+      refetchInterval: REFRESH_INTERVAL,
+    },
+  });
+
+  const { data: statsData } = useReadContract({
+    address: RATINGS_ADDRESS,
+    abi: RATINGS_ABI,
+    functionName: 'getPlayerStats',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: ratingsReady && !!address,
+      refetchInterval: REFRESH_INTERVAL,
+    },
+  });
+
+  const standings = leaderboardData ? leaderboardData.map(parseStanding) : [];
+  const myStats = statsData ? parsePlayerStats(statsData) : null;
+  const isMe = (player: string) => !!address && player.toLowerCase() === address.toLowerCase();
+
+  return (
+    <div className="app-shell">
+      <Header />
+      <main className="game-app">
+        <section className="intro-card">
+          <div>
+            <p className="eyebrow">Leaderboard</p>
+            <h2>Strongest players</h2>
+            <p className="lede">
+              Scores stay encrypted, but every settled game publicly records who won. Ratings use Elo, starting at 1500
+              and moving more for upsets.
+            </p>
+            {!ratingsReady ? (
+              <p className="error-text">
+                Set the Ratings deployment address in <code>src/src/config/contracts.ts</code> to show the leaderboard.
+              </p>
+            ) : null}
+          </div>
+          {myStats ? (
+            <div className="status-badge">
+              <p className="badge-title">Your rating</p>
+              <p className="badge-value">{myStats.rating}</p>
+              <p className="muted">{formatRecord(myStats)}</p>
+            </div>
+          ) : null}
+        </section>
+
+        <div className="card">
+          <div className="card-header">
+            <div>
+              <p className="eyebrow">Ratings</p>
+              <h3>Top {LEADERBOARD_SIZE}</h3>
+            </div>
+          </div>
+          {ratingsReady && loadingLeaderboard ? (
+            <p className="muted">Loading the leaderboard...</p>
+          ) : standings.length === 0 ? (
+            <p className="muted">No rated players yet. Settle a game to get on the board.</p>
+          ) : (
+            <table className="history-table">
+              <thead>
+                <tr>
+                  <th>Rank</th>
+                  <th>Player</th>
+                  <th>Rating</th>
+                  <th>Record</th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map((standing, i) => (
+                  <tr key={standing.player}>
+                    <td>{i + 1}</td>
+                    <td className="mono">{isMe(standing.player) ? 'You' : formatAddress(standing.player)}</td>
+                    <td className="mono">{standing.stats.rating}</td>
+                    <td>{formatRecord(standing.stats)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { formatEther } from 'ethers';
+import { useAccount, useReadContract } from 'wagmi';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { TOURNAMENT_ABI, TOURNAMENT_ADDRESS } from '../config/contracts';
+import {
+  TOURNAMENT_CANCELLED,
+  TOURNAMENT_FINISHED,
+  TOURNAMENT_REGISTRATION,
+  TournamentClient,
+  ZERO_ADDRESS,
+  bracketRounds,
+  parseBracketMatch,
+  parseTournament,
+} from '@client/HonestHouseClient';
+import type { BracketMatch, GameRules, HonestHouseClient } from '@client/HonestHouseClient';
+
+const REFRESH_INTERVAL = 10000;
+
+const STATUS_LABELS: Record<number, string> = {
+  [TOURNAMENT_REGISTRATION]: 'Registration open',
+  [TOURNAMENT_FINISHED]: 'Finished',
+  [TOURNAMENT_CANCELLED]: 'Cancelled',
+};
+
+const roundTitle = (round: number, roundCount: number) =>
+  round === roundCount - 1 ? 'Final' : round === roundCount - 2 ? 'Semifinals' : `Round ${round + 1}`;
+
+type TournamentBracketProps = {
+  houseClient: () => Promise<HonestHouseClient>;
+  // Approves token stakes or token-backed coins before a match game is created, like any other seat.
+  prepareSeat: (rules: GameRules) => Promise<void>;
+  onOpenGame: (gameId: number) => void;
+  onStatus: (message: string) => void;
+  onFailure: (error: unknown, fallback: string) => void;
+};
+
+// Registration and the bracket of one Tournament contract event. Each match is a private game that one of the pair
+// creates from here; the settled result is reported when the game panel settles it.
+export function TournamentBracket(props: TournamentBracketProps) {
+  const { houseClient, prepareSeat, onOpenGame, onStatus, onFailure } = props;
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+  const [tournamentId, setTournamentId] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const { data: tournamentData, refetch: refetchTournament } = useReadContract({
+    address: TOURNAMENT_ADDRESS,
+    abi: TOURNAMENT_ABI,
+    functionName: 'getTournament',
+    args: tournamentId ? [BigInt(tournamentId)] : undefined,
+    query: {
+      enabled: !!tournamentId,
+      refetchInterval: REFRESH_INTERVAL,
+    },
+  });
+
+  const { data: bracketData, refetch: refetchBracket } = useReadContract({
+    address: TOURNAMENT_ADDRESS,
+    abi: TOURNAMENT_ABI,
+    functionName: 'getBracket',
+    args: tournamentId ? [BigInt(tournamentId)] : undefined,
+    query: {
+      enabled: !!tournamentId,
+      refetchInterval: REFRESH_INTERVAL,
+    },
+  });
+
+  const { data: pendingData, refetch: refetchPending } = useReadContract({
+    address: TOURNAMENT_ADDRESS,
+    abi: TOURNAMENT_ABI,
+    functionName: 'pendingWithdrawals',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+      refetchInterval: REFRESH_INTERVAL,
+    },
+  });
+
+  const tournament = tournamentData ? parseTournament(tournamentData) : null;
+  const matches = bracketData ? bracketData.map(parseBracketMatch) : [];
+  const rounds = bracketRounds(matches);
+  const pending = pendingData ? BigInt(pendingData as bigint) : 0n;
+
+  const isMe = (player: string) => !!address && player.toLowerCase() === address.toLowerCase();
+  const formatPlayer = (player: string) =>
+    player === ZERO_ADDRESS ? 'TBD' : isMe(player) ? 'You' : `${player.slice(0, 6)}...${player.slice(-4)}`;
+
+  const registered = !!tournament && tournament.entrants.some(isMe);
+  const canRegister =
+    !!tournament &&
+    !!address &&
+    tournament.status === TOURNAMENT_REGISTRATION &&
+    !registered &&
+    tournament.entrants.length < tournament.maxPlayers;
+  const canStart =
+    !!tournament &&
+    tournament.status === TOURNAMENT_REGISTRATION &&
+    isMe(tournament.organizer) &&
+    tournament.entrants.length >= 2;
+
+  const isReady = (match: BracketMatch) =>
+    match.winner === ZERO_ADDRESS && !match.players.includes(ZERO_ADDRESS) && match.players.some(isMe);
+  const walkoverOpen = (match: BracketMatch) =>
+    !!tournament &&
+    tournament.joinWindow > 0 &&
+    match.gameId > 0 &&
+    Math.floor(Date.now() / 1000) >= match.linkedAt + tournament.joinWindow;
+
+  const tournamentClient = async () => {
+    const signer = await signerPromise;
+    if (!signer) throw new Error('Signer unavailable');
+    return new TournamentClient({ address: TOURNAMENT_ADDRESS, abi: TOURNAMENT_ABI, runner: signer });
+  };
+
+  const run = async (pendingMessage: string, action: () => Promise<string>, fallback: string) => {
+    setBusy(true);
+    try {
+      onStatus(pendingMessage);
+      const done = await action();
+      await Promise.all([refetchTournament(), refetchBracket(), refetchPending()]);
+      onStatus(done);
+    } catch (error) {
+      console.error(error);
+      onFailure(error, fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegister = () =>
+    run(
+      'Registering for the tournament...',
+      async () => {
+        await (await tournamentClient()).register(tournamentId!);
+        return 'You are registered.';
+      },
+      'Could not register.',
+    );
+
+  const handleStart = () =>
+    run(
+      'Drawing the bracket...',
+      async () => {
+        await (await tournamentClient()).startTournament(tournamentId!);
+        return 'The tournament has started.';
+      },
+      'Could not start the tournament.',
+    );
+
+  const handleCreateMatchGame = (matchIndex: number) =>
+    run(
+      'Creating your match game...',
+      async () => {
+        const house = await houseClient();
+        await prepareSeat(tournament!.rules);
+        onStatus('Creating your match game...');
+        const gameId = await (await tournamentClient()).createMatchGame(house, tournamentId!, matchIndex);
+        onOpenGame(gameId);
+        return `Game #${gameId} is linked to your match. It starts once your opponent joins.`;
+      },
+      'Could not create the match game.',
+    );
+
+  const handleWalkover = (matchIndex: number) =>
+    run(
+      'Claiming the walkover...',
+      async () => {
+        await (await tournamentClient()).claimWalkover(tournamentId!, matchIndex);
+        return 'Your opponent never joined, you advance.';
+      },
+      'Could not claim the walkover.',
+    );
+
+  const handleWithdraw = () =>
+    run(
+      'Withdrawing...',
+      async () => {
+        await (await tournamentClient()).withdraw();
+        return 'Prize withdrawn.';
+      },
+      'Could not withdraw.',
+    );
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">Tournament</p>
+          <h3>Single-elimination bracket</h3>
+        </div>
+        {tournament ? (
+          <div className="pill subtle">
+            {STATUS_LABELS[tournament.status] ?? `${tournament.entrants.length} players · running`}
+          </div>
+        ) : null}
+      </div>
+
+      <div className="game-selector">
+        <label htmlFor="tournamentId">Tournament ID</label>
+        <input
+          id="tournamentId"
+          type="number"
+          min="1"
+          placeholder="Enter tournament id"
+          value={tournamentId ?? ''}
+          onChange={(e) => setTournamentId(e.target.value ? Number(e.target.value) : null)}
+        />
+      </div>
+
+      {!tournament ? (
+        <p className="muted">Enter a tournament id to follow its bracket.</p>
+      ) : (
+        <>
+          <div className="game-meta">
+            <div>
+              <p className="muted">Players</p>
+              <p className="mono">
+                {tournament.entrants.length}/{tournament.maxPlayers}
+              </p>
+            </div>
+            <div>
+              <p className="muted">Entry fee</p>
+              <p className="mono">{tournament.entryFee > 0n ? `${formatEther(tournament.entryFee)} ETH` : 'Free'}</p>
+            </div>
+            <div>
+              <p className="muted">Prize</p>
+              <p className="mono">{tournament.prize > 0n ? `${formatEther(tournament.prize)} ETH` : 'None'}</p>
+            </div>
+            {tournament.champion !== ZERO_ADDRESS ? (
+              <div>
+                <p className="muted">Champion</p>
+                <p className="mono">{formatPlayer(tournament.champion)}</p>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="actions-row">
+            {canRegister ? (
+              <button className="primary-button" onClick={handleRegister} disabled={busy}>
+                Register
+              </button>
+            ) : null}
+            {canStart ? (
+              <button className="secondary-button" onClick={handleStart} disabled={busy}>
+                Start tournament
+              </button>
+            ) : null}
+            {pending > 0n ? (
+              <button className="secondary-button" onClick={handleWithdraw} disabled={busy}>
+                Withdraw {formatEther(pending)} ETH
+              </button>
+            ) : null}
+          </div>
+
+          {tournament.status === TOURNAMENT_REGISTRATION ? (
+            <p className="muted">
+              {registered ? 'You are registered. ' : ''}The organizer draws the bracket once registration closes.
+            </p>
+          ) : rounds.length > 0 ? (
+            <div className="bracket">
+              {rounds.map((round, roundIndex) => (
+                <div key={roundIndex} className="bracket-round">
+                  <p className="eyebrow">{roundTitle(roundIndex, rounds.length)}</p>
+                  {round.map((match) => {
+                    const matchIndex = matches.indexOf(match);
+                    return (
+                      <div key={matchIndex} className="bracket-match">
+                        {match.players.map((player, seat) => (
+                          <p
+                            key={seat}
+                            className={`bracket-player${
+                              match.winner !== ZERO_ADDRESS && match.winner === player ? ' winner' : ''
+                            }`}
+                          >
+                            {formatPlayer(player)}
+                          </p>
+                        ))}
+                        {match.gameId > 0 ? (
+                          <button className="ghost-button" onClick={() => onOpenGame(match.gameId)}>
+                            Game #{match.gameId}
+                          </button>
+                        ) : null}
+                        {isReady(match) && match.gameId === 0 ? (
+                          <button
+                            className="secondary-button"
+                            onClick={() => handleCreateMatchGame(matchIndex)}
+                            disabled={busy}
+                          >
+                            Create match game
+                          </button>
+                        ) : null}
+                        {isReady(match) && walkoverOpen(match) ? (
+                          <button className="ghost-button" onClick={() => handleWalkover(matchIndex)} disabled={busy}>
+                            Claim walkover
+                          </button>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
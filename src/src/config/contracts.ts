@@ -2,6 +2,11 @@
 export const CONTRACT_ADDRESS = '0xED2972bA23c297538a6853a2CdE839eD14B96403' as `0x${string}`;
 
 export const CONTRACT_ABI = [
+  {
+    "inputs": [],
+    "name": "InvalidKMSSignatures",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "ZamaProtocolUnsupported",
@@ -21,15 +26,9 @@ export const CONTRACT_ABI = [
         "internalType": "address",
         "name": "player",
         "type": "address"
-      },
-      {
-        "indexed": false,
-        "internalType": "euint32",
-        "name": "encryptedAmount",
-        "type": "bytes32"
       }
     ],
-    "name": "CoinsSubmitted",
+    "name": "CoinsClaimed",
     "type": "event"
   },
   {
@@ -44,11 +43,17 @@ export const CONTRACT_ABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "creator",
+        "name": "player",
         "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "euint32",
+        "name": "encryptedAmount",
+        "type": "bytes32"
       }
     ],
-    "name": "GameCreated",
+    "name": "CoinsSubmitted",
     "type": "event"
   },
   {
@@ -61,7 +66,7 @@ export const CONTRACT_ABI = [
         "type": "uint256"
       }
     ],
-    "name": "GameStarted",
+    "name": "GameCancelled",
     "type": "event"
   },
   {
@@ -76,11 +81,11 @@ export const CONTRACT_ABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "player",
+        "name": "creator",
         "type": "address"
       }
     ],
-    "name": "PlayerJoined",
+    "name": "GameCreated",
     "type": "event"
   },
   {
@@ -95,230 +100,295 @@ export const CONTRACT_ABI = [
       {
         "indexed": false,
         "internalType": "uint8",
-        "name": "round",
+        "name": "finalRound",
         "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "euint8",
+        "name": "encryptedOutcome",
+        "type": "bytes32"
       }
     ],
-    "name": "RoundResolved",
+    "name": "GameFinished",
     "type": "event"
   },
   {
-    "inputs": [],
-    "name": "confidentialProtocolId",
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
-        "name": "",
+        "name": "gameId",
         "type": "uint256"
       }
     ],
-    "stateMutability": "view",
-    "type": "function"
+    "name": "GameRevealed",
+    "type": "event"
   },
   {
-    "inputs": [],
-    "name": "createGame",
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "gameId",
         "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "winner",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "draw",
+        "type": "bool"
       }
     ],
-    "stateMutability": "nonpayable",
-    "type": "function"
+    "name": "GameSettled",
+    "type": "event"
   },
   {
-    "inputs": [],
-    "name": "getAllGames",
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
-        "components": [
-          {
-            "internalType": "uint256",
-            "name": "gameId",
-            "type": "uint256"
-          },
-          {
-            "internalType": "address[2]",
-            "name": "players",
-            "type": "address[2]"
-          },
-          {
-            "internalType": "bool",
-            "name": "started",
-            "type": "bool"
-          },
-          {
-            "internalType": "bool",
-            "name": "finished",
-            "type": "bool"
-          },
-          {
-            "internalType": "uint8",
-            "name": "round",
-            "type": "uint8"
-          }
-        ],
-        "internalType": "struct HonestHouse.GameSummary[]",
-        "name": "summaries",
-        "type": "tuple[]"
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view",
-    "type": "function"
+    "name": "GameStarted",
+    "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "gameId",
         "type": "uint256"
-      }
-    ],
-    "name": "getGameSummary",
-    "outputs": [
+      },
       {
-        "components": [
-          {
-            "internalType": "uint256",
-            "name": "gameId",
-            "type": "uint256"
-          },
-          {
-            "internalType": "address[2]",
-            "name": "players",
-            "type": "address[2]"
-          },
-          {
-            "internalType": "bool",
-            "name": "started",
-            "type": "bool"
-          },
-          {
-            "internalType": "bool",
-            "name": "finished",
-            "type": "bool"
-          },
-          {
-            "internalType": "uint8",
-            "name": "round",
-            "type": "uint8"
-          }
-        ],
-        "internalType": "struct HonestHouse.GameSummary",
-        "name": "summary",
-        "type": "tuple"
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
       }
     ],
-    "stateMutability": "view",
-    "type": "function"
+    "name": "PlayerInvited",
+    "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "gameId",
         "type": "uint256"
       },
       {
+        "indexed": true,
         "internalType": "address",
         "name": "player",
         "type": "address"
       }
     ],
-    "name": "getPlayerState",
-    "outputs": [
+    "name": "PlayerJoined",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
       {
-        "internalType": "euint32",
-        "name": "coins",
-        "type": "bytes32"
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
       },
       {
-        "internalType": "euint32",
-        "name": "score",
-        "type": "bytes32"
-      },
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "PlayerLeft",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
       {
-        "internalType": "bool",
-        "name": "hasSubmitted",
-        "type": "bool"
+        "indexed": false,
+        "internalType": "bytes32[]",
+        "name": "handlesList",
+        "type": "bytes32[]"
       },
       {
-        "internalType": "uint8",
-        "name": "seat",
-        "type": "uint8"
+        "indexed": false,
+        "internalType": "bytes",
+        "name": "abiEncodedCleartexts",
+        "type": "bytes"
       }
     ],
-    "stateMutability": "view",
-    "type": "function"
+    "name": "PublicDecryptionVerified",
+    "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "gameId",
         "type": "uint256"
-      }
-    ],
-    "name": "getRoundStatus",
-    "outputs": [
-      {
-        "internalType": "uint8",
-        "name": "round",
-        "type": "uint8"
-      },
-      {
-        "internalType": "bool",
-        "name": "started",
-        "type": "bool"
-      },
-      {
-        "internalType": "bool",
-        "name": "finished",
-        "type": "bool"
-      },
-      {
-        "internalType": "bool",
-        "name": "firstSubmitted",
-        "type": "bool"
-      },
-      {
-        "internalType": "bool",
-        "name": "secondSubmitted",
-        "type": "bool"
       },
       {
-        "internalType": "euint32",
-        "name": "firstContribution",
-        "type": "bytes32"
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "rematchId",
+        "type": "uint256"
       },
       {
-        "internalType": "euint32",
-        "name": "secondContribution",
-        "type": "bytes32"
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
       }
     ],
-    "stateMutability": "view",
-    "type": "function"
+    "name": "RematchProposed",
+    "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "gameId",
         "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
       }
     ],
-    "name": "joinGame",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
+    "name": "RoundResolved",
+    "type": "event"
   },
   {
-    "inputs": [],
-    "name": "nextGameId",
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "spectator",
+        "type": "address"
+      }
+    ],
+    "name": "SpectatorRegistered",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "StakeWithdrawn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "claimant",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "forfeited",
+        "type": "bool"
+      }
+    ],
+    "name": "TimeoutClaimed",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "claimCoins",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "claimTimeout",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "confidentialProtocolId",
+    "outputs": [
       {
         "internalType": "uint256",
         "name": "",
@@ -334,9 +404,19 @@ export const CONTRACT_ABI = [
         "internalType": "uint256",
         "name": "gameId",
         "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "abiEncodedCleartexts",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "decryptionProof",
+        "type": "bytes"
       }
     ],
-    "name": "startGame",
+    "name": "confirmCoinsExhausted",
     "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
@@ -349,17 +429,2249 @@ export const CONTRACT_ABI = [
         "type": "uint256"
       },
       {
-        "internalType": "externalEuint32",
-        "name": "encryptedCoins",
-        "type": "bytes32"
+        "internalType": "uint8",
+        "name": "fromRound",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint8",
+        "name": "toRound",
+        "type": "uint8"
       },
       {
         "internalType": "bytes",
-        "name": "inputProof",
+        "name": "abiEncodedCleartexts",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "decryptionProof",
         "type": "bytes"
       }
     ],
-    "name": "submitCoins",
+    "name": "confirmReveal",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint32",
+            "name": "startingCoins",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "roundReward",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint8",
+            "name": "maxRounds",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "splitTies",
+            "type": "bool"
+          },
+          {
+            "internalType": "enum HonestHouse.EndRule",
+            "name": "endRule",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint32",
+            "name": "turnTimeout",
+            "type": "uint32"
+          },
+          {
+            "internalType": "bool",
+            "name": "forfeitOnTimeout",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "seatCount",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address",
+            "name": "stakeToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "stakeAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "coinToken",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "revealAfterGame",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "spectatorDelay",
+            "type": "uint8"
+          }
+        ],
+        "internalType": "struct HonestHouse.GameRules",
+        "name": "rules",
+        "type": "tuple"
+      }
+    ],
+    "name": "createGame",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint32",
+            "name": "startingCoins",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "roundReward",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint8",
+            "name": "maxRounds",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "splitTies",
+            "type": "bool"
+          },
+          {
+            "internalType": "enum HonestHouse.EndRule",
+            "name": "endRule",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint32",
+            "name": "turnTimeout",
+            "type": "uint32"
+          },
+          {
+            "internalType": "bool",
+            "name": "forfeitOnTimeout",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "seatCount",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address",
+            "name": "stakeToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "stakeAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "coinToken",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "revealAfterGame",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "spectatorDelay",
+            "type": "uint8"
+          }
+        ],
+        "internalType": "struct HonestHouse.GameRules",
+        "name": "rules",
+        "type": "tuple"
+      },
+      {
+        "internalType": "address[]",
+        "name": "invitees",
+        "type": "address[]"
+      }
+    ],
+    "name": "createPrivateGame",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getGameCounts",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "open",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "active",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "finished",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGameResult",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "finished",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool",
+        "name": "settled",
+        "type": "bool"
+      },
+      {
+        "internalType": "euint8",
+        "name": "encryptedOutcome",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "winner",
+        "type": "address"
+      },
+      {
+        "internalType": "ebool",
+        "name": "coinsExhausted",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGameSummary",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address[]",
+            "name": "players",
+            "type": "address[]"
+          },
+          {
+            "internalType": "bool",
+            "name": "started",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "finished",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "cancelled",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "round",
+            "type": "uint8"
+          },
+          {
+            "components": [
+              {
+                "internalType": "uint32",
+                "name": "startingCoins",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "roundReward",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "splitTies",
+                "type": "bool"
+              },
+              {
+                "internalType": "enum HonestHouse.EndRule",
+                "name": "endRule",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint32",
+                "name": "turnTimeout",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool",
+                "name": "forfeitOnTimeout",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "seatCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stakeAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "address",
+                "name": "coinToken",
+                "type": "address"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealAfterGame",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "spectatorDelay",
+                "type": "uint8"
+              }
+            ],
+            "internalType": "struct HonestHouse.GameRules",
+            "name": "rules",
+            "type": "tuple"
+          },
+          {
+            "internalType": "bool",
+            "name": "settled",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "winner",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "isPrivate",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct HonestHouse.GameSummary",
+        "name": "summary",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      },
+      {
+        "internalType": "enum HonestHouse.GameListing",
+        "name": "listing",
+        "type": "uint8"
+      }
+    ],
+    "name": "getGames",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address[]",
+            "name": "players",
+            "type": "address[]"
+          },
+          {
+            "internalType": "bool",
+            "name": "started",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "finished",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "cancelled",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "round",
+            "type": "uint8"
+          },
+          {
+            "components": [
+              {
+                "internalType": "uint32",
+                "name": "startingCoins",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "roundReward",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "splitTies",
+                "type": "bool"
+              },
+              {
+                "internalType": "enum HonestHouse.EndRule",
+                "name": "endRule",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint32",
+                "name": "turnTimeout",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool",
+                "name": "forfeitOnTimeout",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "seatCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stakeAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "address",
+                "name": "coinToken",
+                "type": "address"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealAfterGame",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "spectatorDelay",
+                "type": "uint8"
+              }
+            ],
+            "internalType": "struct HonestHouse.GameRules",
+            "name": "rules",
+            "type": "tuple"
+          },
+          {
+            "internalType": "bool",
+            "name": "settled",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "winner",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "isPrivate",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct HonestHouse.GameSummary[]",
+        "name": "summaries",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getGamesByPlayer",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address[]",
+            "name": "players",
+            "type": "address[]"
+          },
+          {
+            "internalType": "bool",
+            "name": "started",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "finished",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "cancelled",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "round",
+            "type": "uint8"
+          },
+          {
+            "components": [
+              {
+                "internalType": "uint32",
+                "name": "startingCoins",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "roundReward",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "splitTies",
+                "type": "bool"
+              },
+              {
+                "internalType": "enum HonestHouse.EndRule",
+                "name": "endRule",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint32",
+                "name": "turnTimeout",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool",
+                "name": "forfeitOnTimeout",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "seatCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stakeAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "address",
+                "name": "coinToken",
+                "type": "address"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealAfterGame",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "spectatorDelay",
+                "type": "uint8"
+              }
+            ],
+            "internalType": "struct HonestHouse.GameRules",
+            "name": "rules",
+            "type": "tuple"
+          },
+          {
+            "internalType": "bool",
+            "name": "settled",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "winner",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "isPrivate",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct HonestHouse.GameSummary[]",
+        "name": "summaries",
+        "type": "tuple[]"
+      },
+      {
+        "internalType": "bool[]",
+        "name": "awaitingSubmission",
+        "type": "bool[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getPlayerState",
+    "outputs": [
+      {
+        "internalType": "euint32",
+        "name": "coins",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "euint32",
+        "name": "score",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bool",
+        "name": "hasSubmitted",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint8",
+        "name": "seat",
+        "type": "uint8"
+      },
+      {
+        "internalType": "bool",
+        "name": "coinsClaimed",
+        "type": "bool"
+      },
+      {
+        "internalType": "ebool",
+        "name": "lastCanSpend",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "fromRound",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint8",
+        "name": "toRound",
+        "type": "uint8"
+      }
+    ],
+    "name": "getRoundHistory",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint8",
+            "name": "round",
+            "type": "uint8"
+          },
+          {
+            "internalType": "euint32[]",
+            "name": "contributions",
+            "type": "bytes32[]"
+          },
+          {
+            "internalType": "ebool[]",
+            "name": "won",
+            "type": "bytes32[]"
+          },
+          {
+            "internalType": "euint32[]",
+            "name": "scores",
+            "type": "bytes32[]"
+          },
+          {
+            "internalType": "bool",
+            "name": "revealed",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint32[]",
+            "name": "revealedContributions",
+            "type": "uint32[]"
+          }
+        ],
+        "internalType": "struct HonestHouse.RoundRecord[]",
+        "name": "records",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getRoundStatus",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "internalType": "bool",
+        "name": "started",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool",
+        "name": "finished",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool[]",
+        "name": "submitted",
+        "type": "bool[]"
+      },
+      {
+        "internalType": "euint32[]",
+        "name": "contributions",
+        "type": "bytes32[]"
+      },
+      {
+        "internalType": "uint64",
+        "name": "deadline",
+        "type": "uint64"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getSeries",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "seriesId",
+        "type": "uint256"
+      },
+      {
+        "components": [
+          {
+            "internalType": "address[2]",
+            "name": "players",
+            "type": "address[2]"
+          },
+          {
+            "internalType": "uint32[2]",
+            "name": "wins",
+            "type": "uint32[2]"
+          },
+          {
+            "internalType": "uint32",
+            "name": "draws",
+            "type": "uint32"
+          }
+        ],
+        "internalType": "struct HonestHouse.Series",
+        "name": "score",
+        "type": "tuple"
+      },
+      {
+        "internalType": "uint256",
+        "name": "rematchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getSettlementHook",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address[]",
+        "name": "invitees",
+        "type": "address[]"
+      }
+    ],
+    "name": "invitePlayers",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "isInvited",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "joinGame",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "signature",
+        "type": "bytes"
+      }
+    ],
+    "name": "joinWithInvite",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "leaveGame",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextGameId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "fromRound",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint8",
+        "name": "toRound",
+        "type": "uint8"
+      }
+    ],
+    "name": "openReveal",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "pendingWithdrawals",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint32",
+            "name": "startingCoins",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "roundReward",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint8",
+            "name": "maxRounds",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "splitTies",
+            "type": "bool"
+          },
+          {
+            "internalType": "enum HonestHouse.EndRule",
+            "name": "endRule",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint32",
+            "name": "turnTimeout",
+            "type": "uint32"
+          },
+          {
+            "internalType": "bool",
+            "name": "forfeitOnTimeout",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "seatCount",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address",
+            "name": "stakeToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "stakeAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "coinToken",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "revealAfterGame",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "spectatorDelay",
+            "type": "uint8"
+          }
+        ],
+        "internalType": "struct HonestHouse.GameRules",
+        "name": "rules",
+        "type": "tuple"
+      },
+      {
+        "internalType": "bool",
+        "name": "autoStart",
+        "type": "bool"
+      }
+    ],
+    "name": "quickMatch",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "registerSpectator",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "rematch",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "rematchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "scoresUnlocked",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "hook",
+        "type": "address"
+      }
+    ],
+    "name": "setSettlementHook",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "abiEncodedCleartexts",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "decryptionProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "settleGame",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "startGame",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint32",
+        "name": "encryptedCoins",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "submitCoins",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      }
+    ],
+    "name": "unlockScores",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "name": "withdraw",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+// Ratings contract configuration. Replace RATINGS_ADDRESS once it is deployed next to HonestHouse; the leaderboard
+// stays empty while it is the zero address.
+export const RATINGS_ADDRESS = '0x0000000000000000000000000000000000000000' as `0x${string}`;
+
+export const RATINGS_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract HonestHouse",
+        "name": "house_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "winner",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "draw",
+        "type": "bool"
+      }
+    ],
+    "name": "GameRecorded",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "rating",
+        "type": "uint32"
+      }
+    ],
+    "name": "RatingChanged",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "INITIAL_RATING",
+    "outputs": [
+      {
+        "internalType": "uint32",
+        "name": "",
+        "type": "uint32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getLeaderboard",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "player",
+            "type": "address"
+          },
+          {
+            "components": [
+              {
+                "internalType": "uint32",
+                "name": "wins",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "losses",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "draws",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "rating",
+                "type": "uint32"
+              }
+            ],
+            "internalType": "struct Ratings.PlayerStats",
+            "name": "stats",
+            "type": "tuple"
+          }
+        ],
+        "internalType": "struct Ratings.Standing[]",
+        "name": "top",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getPlayerStats",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint32",
+            "name": "wins",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "losses",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "draws",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "rating",
+            "type": "uint32"
+          }
+        ],
+        "internalType": "struct Ratings.PlayerStats",
+        "name": "playerStats",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "house",
+    "outputs": [
+      {
+        "internalType": "contract HonestHouse",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "playerCount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "recordGame",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "recorded",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "counted",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// Tournament contract configuration. Replace TOURNAMENT_ADDRESS once it is deployed next to HonestHouse; the bracket
+// view stays hidden while it is the zero address.
+export const TOURNAMENT_ADDRESS = '0x0000000000000000000000000000000000000000' as `0x${string}`;
+
+export const TOURNAMENT_ABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract HonestHouse",
+        "name": "house_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "matchIndex",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "GameLinked",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "matchIndex",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "winner",
+        "type": "address"
+      }
+    ],
+    "name": "MatchDecided",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "matchIndex",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "MatchDrawn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "PlayerRegistered",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "PrizeWithdrawn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      }
+    ],
+    "name": "TournamentCancelled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "organizer",
+        "type": "address"
+      }
+    ],
+    "name": "TournamentCreated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "champion",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "prize",
+        "type": "uint256"
+      }
+    ],
+    "name": "TournamentFinished",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "bracketSize",
+        "type": "uint256"
+      }
+    ],
+    "name": "TournamentStarted",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_PLAYERS",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      }
+    ],
+    "name": "cancelTournament",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "matchIndex",
+        "type": "uint256"
+      }
+    ],
+    "name": "claimWalkover",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint32",
+            "name": "startingCoins",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "roundReward",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint8",
+            "name": "maxRounds",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "splitTies",
+            "type": "bool"
+          },
+          {
+            "internalType": "enum HonestHouse.EndRule",
+            "name": "endRule",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint32",
+            "name": "turnTimeout",
+            "type": "uint32"
+          },
+          {
+            "internalType": "bool",
+            "name": "forfeitOnTimeout",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "seatCount",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address",
+            "name": "stakeToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "stakeAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "coinToken",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "revealAfterGame",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint8",
+            "name": "spectatorDelay",
+            "type": "uint8"
+          }
+        ],
+        "internalType": "struct HonestHouse.GameRules",
+        "name": "rules",
+        "type": "tuple"
+      },
+      {
+        "internalType": "uint8",
+        "name": "maxPlayers",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint256",
+        "name": "entryFee",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint32",
+        "name": "joinWindow",
+        "type": "uint32"
+      }
+    ],
+    "name": "createTournament",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "gameMatches",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "matchIndex",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getBracket",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "address[2]",
+            "name": "players",
+            "type": "address[2]"
+          },
+          {
+            "internalType": "uint256",
+            "name": "gameId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint64",
+            "name": "linkedAt",
+            "type": "uint64"
+          },
+          {
+            "internalType": "address",
+            "name": "winner",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct Tournament.Match[]",
+        "name": "",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getTournament",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "tournamentId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "organizer",
+            "type": "address"
+          },
+          {
+            "components": [
+              {
+                "internalType": "uint32",
+                "name": "startingCoins",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint32",
+                "name": "roundReward",
+                "type": "uint32"
+              },
+              {
+                "internalType": "uint8",
+                "name": "maxRounds",
+                "type": "uint8"
+              },
+              {
+                "internalType": "bool",
+                "name": "splitTies",
+                "type": "bool"
+              },
+              {
+                "internalType": "enum HonestHouse.EndRule",
+                "name": "endRule",
+                "type": "uint8"
+              },
+              {
+                "internalType": "uint32",
+                "name": "turnTimeout",
+                "type": "uint32"
+              },
+              {
+                "internalType": "bool",
+                "name": "forfeitOnTimeout",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "seatCount",
+                "type": "uint8"
+              },
+              {
+                "internalType": "address",
+                "name": "stakeToken",
+                "type": "address"
+              },
+              {
+                "internalType": "uint256",
+                "name": "stakeAmount",
+                "type": "uint256"
+              },
+              {
+                "internalType": "address",
+                "name": "coinToken",
+                "type": "address"
+              },
+              {
+                "internalType": "bool",
+                "name": "revealAfterGame",
+                "type": "bool"
+              },
+              {
+                "internalType": "uint8",
+                "name": "spectatorDelay",
+                "type": "uint8"
+              }
+            ],
+            "internalType": "struct HonestHouse.GameRules",
+            "name": "rules",
+            "type": "tuple"
+          },
+          {
+            "internalType": "uint8",
+            "name": "maxPlayers",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint256",
+            "name": "entryFee",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint32",
+            "name": "joinWindow",
+            "type": "uint32"
+          },
+          {
+            "internalType": "enum Tournament.Status",
+            "name": "status",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address[]",
+            "name": "entrants",
+            "type": "address[]"
+          },
+          {
+            "internalType": "uint256",
+            "name": "prize",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "champion",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct Tournament.TournamentSummary",
+        "name": "summary",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "house",
+    "outputs": [
+      {
+        "internalType": "contract HonestHouse",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "matchIndex",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "linkGame",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextTournamentId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "onGameSettled",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "pendingWithdrawals",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      }
+    ],
+    "name": "register",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "gameId",
+        "type": "uint256"
+      }
+    ],
+    "name": "reportGame",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tournamentId",
+        "type": "uint256"
+      }
+    ],
+    "name": "startTournament",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "withdraw",
     "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
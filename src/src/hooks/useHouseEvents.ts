@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { WatchContractEventOnLogsParameter } from 'viem';
+import { useWatchContractEvent } from 'wagmi';
+import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+
+export type HouseEvent = {
+  name: string;
+  gameId: number;
+  player?: string;
+};
+
+// Events that change what the game screens show; the rest only matter to their own transactions.
+const WATCHED_EVENTS = [
+  'GameCreated',
+  'PlayerJoined',
+  'PlayerLeft',
+  'GameCancelled',
+  'GameStarted',
+  'CoinsSubmitted',
+  'RoundResolved',
+  'GameFinished',
+  'GameSettled',
+  'RematchProposed',
+] as const;
+
+type HouseLog = WatchContractEventOnLogsParameter<typeof CONTRACT_ABI>[number];
+type WatchedLog = Extract<HouseLog, { eventName: (typeof WATCHED_EVENTS)[number] }>;
+
+const isWatched = (log: HouseLog): log is WatchedLog => (WATCHED_EVENTS as readonly string[]).includes(log.eventName);
+
+export function useHouseEvents(enabled: boolean, onEvent: (event: HouseEvent) => void) {
+  const [live, setLive] = useState(true);
+  const handler = useRef(onEvent);
+
+  useEffect(() => {
+    handler.current = onEvent;
+  }, [onEvent]);
+
+  // Stable callbacks, so re-renders do not tear down and recreate the subscription.
+  const onLogs = useCallback((logs: WatchContractEventOnLogsParameter<typeof CONTRACT_ABI>) => {
+    setLive(true);
+    for (const log of logs) {
+      if (!isWatched(log)) continue;
+      const { args } = log;
+      handler.current({
+        name: log.eventName,
+        gameId: Number(args.gameId),
+        player: 'player' in args ? args.player : 'creator' in args ? args.creator : undefined,
+      });
+    }
+  }, []);
+
+  const onError = useCallback((error: Error) => {
+    console.error('Lost the HonestHouse event subscription:', error);
+    setLive(false);
+  }, []);
+
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    enabled,
+    onLogs,
+    onError,
+  });
+
+  return { live };
+}
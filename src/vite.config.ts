@@ -1,7 +1,19 @@
-import { defineConfig } from 'vite'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// The typed client is shared with the Hardhat tasks and tests in ../client. Its ethers import resolves to this
+// package's copy, so the repository root needs no installed dependencies to build the frontend.
+const clientDir = fileURLToPath(new URL('../client', import.meta.url))
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: { '@client': clientDir },
+    dedupe: ['ethers'],
+  },
+  server: {
+    fs: { allow: [searchForWorkspaceRoot(process.cwd()), clientDir] },
+  },
 })
@@ -1,6 +1,8 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { HonestHouseClient } from "../client/HonestHouseClient";
+import type { DecryptedValue } from "../client/HonestHouseClient";
 
 task("task:address", "Prints the HonestHouse address").setAction(async function (_taskArguments: TaskArguments, hre) {
   const { deployments } = hre;
@@ -8,46 +10,179 @@ task("task:address", "Prints the HonestHouse address").setAction(async function
   console.log("HonestHouse address is " + deployment.address);
 });
 
-task("task:create-game", "Creates a new game and returns the id").setAction(async function (_args, hre) {
-  const { ethers, deployments } = hre;
+const END_RULES = ["rounds", "coins"];
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+// The first signer's view of the deployed house. Call fhevm.initializeCLIApi() before encrypting or decrypting.
+async function houseClient(hre: HardhatRuntimeEnvironment): Promise<HonestHouseClient> {
+  const { ethers, deployments, fhevm } = hre;
+  const [signer] = await ethers.getSigners();
   const deployment = await deployments.get("HonestHouse");
-  const contract = await ethers.getContractAt("HonestHouse", deployment.address);
-  const tx = await contract.createGame();
-  const receipt = await tx.wait();
-  const gameCreated = receipt?.logs?.find((log: any) => log.fragment?.name === "GameCreated");
-  console.log("tx:", tx.hash);
-  if (gameCreated && gameCreated.args) {
-    console.log("Game id:", gameCreated.args.gameId.toString());
+  return new HonestHouseClient({ address: deployment.address, abi: deployment.abi, runner: signer, fhevm });
+}
+
+// Tops up the allowance of an ERC-20 stake; the client sends ETH stakes along as value.
+async function prepareStake(
+  hre: HardhatRuntimeEnvironment,
+  houseAddress: string,
+  stakeToken: string,
+  stakeAmount: bigint,
+) {
+  const { ethers } = hre;
+  if (stakeAmount === 0n || stakeToken === ethers.ZeroAddress) {
+    return;
   }
-});
+
+  const [signer] = await ethers.getSigners();
+  const token = new ethers.Contract(stakeToken, ERC20_ABI, signer);
+  const allowance: bigint = await token.allowance(signer.address, houseAddress);
+  if (allowance < stakeAmount) {
+    const approval = await token.approve(houseAddress, stakeAmount);
+    await approval.wait();
+    console.log(`Approved ${stakeAmount} of token ${stakeToken} with tx ${approval.hash}`);
+  }
+}
+
+// Makes the house an operator of the confidential token so it can pull the starting coins into the seat.
+async function prepareCoins(hre: HardhatRuntimeEnvironment, houseAddress: string, coinToken: string) {
+  const { ethers } = hre;
+  if (coinToken === ethers.ZeroAddress) {
+    return;
+  }
+
+  const [signer] = await ethers.getSigners();
+  const token = await ethers.getContractAt("ConfidentialToken", coinToken);
+  if (await token.isOperator(signer.address, houseAddress)) {
+    return;
+  }
+  const block = await ethers.provider.getBlock("latest");
+  const tx = await token.setOperator(houseAddress, (block?.timestamp ?? 0) + 24 * 60 * 60);
+  await tx.wait();
+  console.log(`Approved the house to fund your seat from token ${coinToken} with tx ${tx.hash}`);
+}
+
+task("task:create-game", "Creates a new game and returns the id")
+  .addOptionalParam("rule", "End rule: rounds (fixed round count) or coins (both players spent all coins)", "rounds")
+  .addOptionalParam("rounds", "Number of rounds for the rounds end rule", "10")
+  .addOptionalParam("seats", "Number of seats, from 2 to 8", "2")
+  .addOptionalParam("coins", "Starting coins for each player", "100")
+  .addOptionalParam("reward", "Score reward for winning a round", "10")
+  .addFlag("splitTies", "Split the round reward between both players on a tie")
+  .addOptionalParam("timeout", "Seconds each round stays open before the waiting player can claim (0 disables)", "0")
+  .addFlag("forfeit", "Forfeit the game to the waiting player on timeout instead of scoring a zero contribution")
+  .addOptionalParam("stake", "Stake every player deposits, in wei or token base units (0 disables)", "0")
+  .addOptionalParam("token", "ERC-20 token used for the stake (defaults to ETH)")
+  .addOptionalParam("coinToken", "Confidential token that funds the starting coins (defaults to free coins)")
+  .addFlag("reveal", "Allow every round's contributions to be publicly revealed once the game finishes")
+  .addOptionalParam(
+    "spectators",
+    "Rounds scores stay hidden from registered spectators (0 disables spectators, 255 hides them until the game ends)",
+    "0",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const endRule = END_RULES.indexOf(taskArguments.rule);
+    if (endRule < 0) {
+      throw new Error(`rule must be one of ${END_RULES.join(", ")}`);
+    }
+    const maxRounds = endRule === 0 ? parseInt(taskArguments.rounds) : 0;
+    if (endRule === 0 && (!Number.isInteger(maxRounds) || maxRounds < 1 || maxRounds > 255)) {
+      throw new Error("rounds must be an integer between 1 and 255");
+    }
+    const seatCount = parseInt(taskArguments.seats);
+    if (!Number.isInteger(seatCount) || seatCount < 2 || seatCount > 8) {
+      throw new Error("seats must be an integer between 2 and 8");
+    }
+    const startingCoins = parseInt(taskArguments.coins);
+    const roundReward = parseInt(taskArguments.reward);
+    if (!Number.isInteger(startingCoins) || startingCoins < 1) {
+      throw new Error("coins must be a positive integer");
+    }
+    if (!Number.isInteger(roundReward) || roundReward < 1) {
+      throw new Error("reward must be a positive integer");
+    }
+    const turnTimeout = parseInt(taskArguments.timeout);
+    if (!Number.isInteger(turnTimeout) || turnTimeout < 0) {
+      throw new Error("timeout must be a non-negative integer");
+    }
+    const stakeAmount = BigInt(taskArguments.stake);
+    const stakeToken = taskArguments.token ?? ethers.ZeroAddress;
+    if (stakeAmount < 0n || !ethers.isAddress(stakeToken)) {
+      throw new Error("stake must be non-negative and token a valid address");
+    }
+    const coinToken = taskArguments.coinToken ?? ethers.ZeroAddress;
+    if (!ethers.isAddress(coinToken)) {
+      throw new Error("coinToken must be a valid address");
+    }
+
+    const spectatorDelay = parseInt(taskArguments.spectators);
+    if (!Number.isInteger(spectatorDelay) || spectatorDelay < 0 || spectatorDelay > 255) {
+      throw new Error("spectators must be an integer between 0 and 255");
+    }
+
+    const client = await houseClient(hre);
+    await prepareStake(hre, client.address, stakeToken, stakeAmount);
+    await prepareCoins(hre, client.address, coinToken);
+    const gameId = await client.createGame({
+      startingCoins,
+      roundReward,
+      maxRounds,
+      splitTies: taskArguments.splitTies,
+      endRule,
+      turnTimeout,
+      forfeitOnTimeout: taskArguments.forfeit,
+      seatCount,
+      stakeToken,
+      stakeAmount,
+      coinToken,
+      revealAfterGame: taskArguments.reveal,
+      spectatorDelay,
+    });
+    console.log("Game id:", gameId);
+  });
 
 task("task:join-game", "Join an existing game")
   .addParam("game", "Game id")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
-    const deployment = await deployments.get("HonestHouse");
-    const contract = await ethers.getContractAt("HonestHouse", deployment.address);
-    const tx = await contract.joinGame(taskArguments.game);
-    await tx.wait();
-    console.log(`Joined game ${taskArguments.game} with tx ${tx.hash}`);
+    const client = await houseClient(hre);
+    const { rules } = await client.getGameSummary(taskArguments.game);
+    await prepareStake(hre, client.address, rules.stakeToken, rules.stakeAmount);
+    await prepareCoins(hre, client.address, rules.coinToken);
+    const receipt = await client.joinGame(taskArguments.game);
+    console.log(`Joined game ${taskArguments.game} with tx ${receipt.hash}`);
   });
 
-task("task:start-game", "Start a game that has two players")
+task("task:leave-game", "Leave a game before it starts; the creator leaving cancels it")
   .addParam("game", "Game id")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
-    const deployment = await deployments.get("HonestHouse");
-    const contract = await ethers.getContractAt("HonestHouse", deployment.address);
-    const tx = await contract.startGame(taskArguments.game);
-    await tx.wait();
-    console.log(`Started game ${taskArguments.game} with tx ${tx.hash}`);
+    const client = await houseClient(hre);
+    const receipt = await client.leaveGame(taskArguments.game);
+    const summary = await client.getGameSummary(taskArguments.game);
+    if (summary.cancelled) {
+      console.log(`Cancelled game ${taskArguments.game} with tx ${receipt.hash}`);
+    } else {
+      console.log(`Left game ${taskArguments.game} with tx ${receipt.hash}`);
+    }
+  });
+
+task("task:start-game", "Start a game once every seat is filled")
+  .addParam("game", "Game id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await houseClient(hre);
+    const receipt = await client.startGame(taskArguments.game);
+    console.log(`Started game ${taskArguments.game} with tx ${receipt.hash}`);
   });
 
 task("task:submit", "Submit encrypted coins for the round")
   .addParam("game", "Game id")
   .addParam("value", "Coins to submit (integer)")
+  .addFlag("check", "Decrypt whether the bid was covered by your balance or replaced with 0")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
     const amount = parseInt(taskArguments.value);
     if (!Number.isInteger(amount) || amount < 0) {
       throw new Error("value must be a non-negative integer");
@@ -55,52 +190,260 @@ task("task:submit", "Submit encrypted coins for the round")
 
     await fhevm.initializeCLIApi();
     const [signer] = await ethers.getSigners();
-    const deployment = await deployments.get("HonestHouse");
-    const contract = await ethers.getContractAt("HonestHouse", deployment.address);
+    const client = await houseClient(hre);
+    const receipt = await client.submitCoins(taskArguments.game, amount);
+    console.log(`Submitted ${amount} coins to game ${taskArguments.game} with tx ${receipt.hash}`);
 
-    const encrypted = await fhevm
-      .createEncryptedInput(deployment.address, signer.address)
-      .add32(amount)
-      .encrypt();
-
-    const tx = await contract.submitCoins(taskArguments.game, encrypted.handles[0], encrypted.inputProof);
-    await tx.wait();
-    console.log(`Submitted ${amount} coins to game ${taskArguments.game} with tx ${tx.hash}`);
+    if (taskArguments.check) {
+      const playerState = await client.getPlayerState(taskArguments.game, signer.address);
+      const covered = (await client.userDecrypt([playerState.lastCanSpend]))[playerState.lastCanSpend];
+      console.log(
+        covered
+          ? "Your bid was covered by your balance"
+          : "Warning: your bid exceeded your balance and was replaced with 0",
+      );
+    }
   });
 
 task("task:status", "Prints round info and decrypted balances for the first signer")
   .addParam("game", "Game id")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
     await fhevm.initializeCLIApi();
     const [signer] = await ethers.getSigners();
-    const deployment = await deployments.get("HonestHouse");
-    const contract = await ethers.getContractAt("HonestHouse", deployment.address);
+    const client = await houseClient(hre);
 
-    const summary = await contract.getGameSummary(taskArguments.game);
+    const summary = await client.getGameSummary(taskArguments.game);
     console.log("Round:", summary.round, "started:", summary.started, "finished:", summary.finished);
-    console.log("Players:", summary.players[0], summary.players[1]);
+    if (summary.cancelled) {
+      console.log("This game was cancelled by its creator");
+      return;
+    }
+    console.log(
+      "End rule:",
+      summary.rules.endRule === 0 ? `after ${summary.rules.maxRounds} rounds` : "when every player spent all coins",
+    );
+    console.log(
+      "Rules:",
+      `${summary.rules.startingCoins} starting coins,`,
+      `${summary.rules.roundReward} points per round,`,
+      summary.rules.splitTies ? "ties split the reward" : "ties score nothing",
+    );
+    if (summary.rules.stakeAmount > 0n) {
+      console.log(
+        "Stake:",
+        summary.rules.stakeToken === ethers.ZeroAddress
+          ? `${ethers.formatEther(summary.rules.stakeAmount)} ETH per player`
+          : `${summary.rules.stakeAmount} of token ${summary.rules.stakeToken} per player`,
+      );
+    }
+    if (summary.rules.coinToken !== ethers.ZeroAddress) {
+      console.log("Coins funded from confidential token", summary.rules.coinToken);
+    }
 
-    if (summary.players[0] === ethers.ZeroAddress && summary.players[1] === ethers.ZeroAddress) {
+    const roundStatus = await client.getRoundStatus(taskArguments.game);
+    if (roundStatus.deadline > 0) {
+      const deadline = new Date(roundStatus.deadline * 1000);
+      console.log(
+        `Round deadline: ${deadline.toISOString()},`,
+        summary.rules.forfeitOnTimeout ? "stalling forfeits the game" : "stalling scores a zero contribution",
+      );
+    }
+    summary.players.forEach((player, seat) => {
+      const submitted = roundStatus.submitted[seat] ? " (submitted)" : "";
+      console.log(`Seat ${seat + 1}:`, player === ethers.ZeroAddress ? "open" : `${player}${submitted}`);
+    });
+
+    if (summary.finished) {
+      if (summary.settled) {
+        console.log("Result:", summary.winner === ethers.ZeroAddress ? "draw" : `winner ${summary.winner}`);
+      } else {
+        const result = await client.getGameResult(taskArguments.game);
+        const outcome = await fhevm.publicDecryptEuint(FhevmType.euint8, result.encryptedOutcome);
+        console.log(
+          "Result (not settled yet):",
+          outcome === 0n ? "draw" : `winner ${summary.players[Number(outcome) - 1]}`,
+        );
+      }
+    }
+
+    if (summary.players.every((player) => player === ethers.ZeroAddress)) {
       return;
     }
 
     try {
-      const playerState = await contract.getPlayerState(taskArguments.game, signer.address);
-      const coins = await fhevm.userDecryptEuint(
-        FhevmType.euint32,
-        playerState.coins,
-        deployment.address,
-        signer,
-      );
-      const score = await fhevm.userDecryptEuint(
-        FhevmType.euint32,
-        playerState.score,
-        deployment.address,
-        signer,
-      );
+      const playerState = await client.getPlayerState(taskArguments.game, signer.address);
+      const { coins, score } = await client.decryptBalance(taskArguments.game);
       console.log(`Your coins: ${coins}, score: ${score}, submitted: ${playerState.hasSubmitted}`);
     } catch {
       console.log("Signer is not part of this game or decryption failed");
     }
   });
+
+task("task:my-games", "Lists the games the first signer holds a seat in")
+  .addOptionalParam("offset", "Index of the first game to list", "0")
+  .addOptionalParam("limit", "Maximum number of games to list", "20")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const client = await houseClient(hre);
+
+    const { games, total } = await client.getGamesByPlayer(
+      signer.address,
+      parseInt(taskArguments.offset),
+      parseInt(taskArguments.limit),
+    );
+    console.log(`${signer.address} is seated in ${total} games`);
+    games.forEach((summary) => {
+      const status = summary.cancelled
+        ? "cancelled"
+        : summary.finished
+          ? summary.settled
+            ? summary.winner === ethers.ZeroAddress
+              ? "finished, draw"
+              : `finished, winner ${summary.winner}`
+            : "finished, not settled"
+          : summary.started
+            ? `round ${summary.round}${summary.awaitingSubmission ? ", your turn" : ", waiting for opponents"}`
+            : "waiting to start";
+      console.log(`Game ${summary.gameId}: ${status}`);
+    });
+  });
+
+task("task:settle", "Publicly decrypts the result of a finished game and settles the winner on-chain")
+  .addParam("game", "Game id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const client = await houseClient(hre);
+
+    const result = await client.getGameResult(taskArguments.game);
+    if (!result.finished) {
+      throw new Error(`Game ${taskArguments.game} is not finished`);
+    }
+    if (result.settled) {
+      console.log(`Game ${taskArguments.game} is already settled`);
+      return;
+    }
+
+    const receipt = await client.settleGame(taskArguments.game);
+    const summary = await client.getGameSummary(taskArguments.game);
+    console.log(
+      `Settled game ${taskArguments.game} with tx ${receipt.hash}:`,
+      summary.winner === ethers.ZeroAddress ? "draw" : `winner ${summary.winner}`,
+    );
+  });
+
+task("task:claim-timeout", "Claims the current round after the opponent missed the turn deadline")
+  .addParam("game", "Game id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await houseClient(hre);
+    const receipt = await client.claimTimeout(taskArguments.game);
+
+    const summary = await client.getGameSummary(taskArguments.game);
+    if (summary.finished && summary.settled) {
+      console.log(`Opponent forfeited game ${taskArguments.game} with tx ${receipt.hash}, winner ${summary.winner}`);
+    } else {
+      console.log(`Resolved round of game ${taskArguments.game} with a zero contribution, tx ${receipt.hash}`);
+    }
+  });
+
+task("task:withdraw", "Withdraws stakes won or refunded to the first signer")
+  .addOptionalParam("token", "ERC-20 token to withdraw (defaults to ETH)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const client = await houseClient(hre);
+
+    const token = taskArguments.token ?? ethers.ZeroAddress;
+    const amount = await client.getPendingWithdrawal(token, signer.address);
+    if (amount === 0n) {
+      console.log("Nothing to withdraw");
+      return;
+    }
+
+    const receipt = await client.withdraw(token);
+    console.log(
+      `Withdrew ${amount} ${token === ethers.ZeroAddress ? "wei" : `of token ${token}`} with tx ${receipt.hash}`,
+    );
+  });
+
+task("task:claim-coins", "Returns unspent coins and winnings of a token-backed game to the first signer")
+  .addParam("game", "Game id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await houseClient(hre);
+    const receipt = await client.claimCoins(taskArguments.game);
+    console.log(`Claimed the coins of game ${taskArguments.game} with tx ${receipt.hash}`);
+  });
+
+task("task:mint-coins", "Mints reference confidential tokens to the first signer")
+  .addParam("token", "ConfidentialToken address")
+  .addOptionalParam("amount", "Amount to mint", "1000")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const amount = parseInt(taskArguments.amount);
+    if (!Number.isInteger(amount) || amount < 1) {
+      throw new Error("amount must be a positive integer");
+    }
+
+    const token = await ethers.getContractAt("ConfidentialToken", taskArguments.token);
+    const tx = await token.mint(signer.address, amount);
+    await tx.wait();
+    console.log(`Minted ${amount} confidential tokens to ${signer.address} with tx ${tx.hash}`);
+  });
+
+task("task:history", "Prints the round history of a game with the first signer's entries decrypted in one request")
+  .addParam("game", "Game id")
+  .addOptionalParam("from", "First round", "1")
+  .addOptionalParam("to", "Last round", "255")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const [signer] = await ethers.getSigners();
+    const client = await houseClient(hre);
+
+    const history = await client.getRoundHistory(
+      taskArguments.game,
+      parseInt(taskArguments.from),
+      parseInt(taskArguments.to),
+    );
+    if (history.length === 0) {
+      console.log(`Game ${taskArguments.game} has no resolved rounds in that range`);
+      return;
+    }
+
+    const summary = await client.getGameSummary(taskArguments.game);
+    const seat = summary.players.findIndex((player) => player === signer.address);
+    let decrypted: Record<string, DecryptedValue> = {};
+    if (seat >= 0) {
+      decrypted = await client.userDecrypt(history.flatMap((record) => [record.contributions[seat], record.won[seat]]));
+    } else {
+      console.log("Signer is not part of this game, entries stay encrypted");
+    }
+
+    for (const record of history) {
+      const entry =
+        seat >= 0
+          ? `you contributed ${decrypted[record.contributions[seat]]}, ${decrypted[record.won[seat]] ? "won" : "did not win"}`
+          : record.contributions.join(", ");
+      const revealed = record.revealed ? ` (revealed: ${record.revealedContributions.join(", ")})` : "";
+      console.log(`Round ${record.round}:`, entry + revealed);
+    }
+  });
+
+task("task:reveal", "Publicly reveals every round's contributions of a finished game that opted in")
+  .addParam("game", "Game id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const client = await houseClient(hre);
+
+    const revealed = await client.revealRounds(taskArguments.game);
+    if (!revealed) {
+      console.log(`Game ${taskArguments.game} has no rounds left to reveal`);
+      return;
+    }
+    const { fromRound, toRound, receipt } = revealed;
+    console.log(`Revealed rounds ${fromRound} to ${toRound} of game ${taskArguments.game} with tx ${receipt.hash}`);
+  });
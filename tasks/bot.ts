@@ -0,0 +1,62 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { HouseBot } from "../bot/HouseBot";
+import { loadStrategy } from "../bot/strategies";
+import { HonestHouseClient } from "../client/HonestHouseClient";
+
+task("task:bot", "Runs a bot that joins open games and submits encrypted bids on its own")
+  .addOptionalParam(
+    "strategy",
+    "fixed:<fraction>, random, adaptive[:<step>] or a path to a strategy module",
+    "adaptive",
+  )
+  .addOptionalParam("account", "Index of the signer the bot plays with", "0")
+  .addOptionalParam("games", "Open games to join at a time (0 only plays games the bot is already seated in)", "1")
+  .addOptionalParam("maxStake", "Largest ETH stake in wei the bot puts down to join a game", "0")
+  .addOptionalParam("interval", "Seconds between passes", "3")
+  .addFlag("once", "Run a single pass and exit")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const account = parseInt(taskArguments.account);
+    const maxGames = parseInt(taskArguments.games);
+    const interval = parseInt(taskArguments.interval);
+    const maxStake = BigInt(taskArguments.maxStake);
+    const signers = await ethers.getSigners();
+    if (!Number.isInteger(account) || account < 0 || account >= signers.length) {
+      throw new Error(`account must be a signer index between 0 and ${signers.length - 1}`);
+    }
+    if (!Number.isInteger(maxGames) || maxGames < 0) {
+      throw new Error("games must be a non-negative integer");
+    }
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error("interval must be a positive integer");
+    }
+    if (maxStake < 0n) {
+      throw new Error("maxStake must be non-negative");
+    }
+
+    await fhevm.initializeCLIApi();
+    const deployment = await deployments.get("HonestHouse");
+    const strategy = await loadStrategy(taskArguments.strategy);
+    const bot = new HouseBot({
+      client: new HonestHouseClient({
+        address: deployment.address,
+        abi: deployment.abi,
+        runner: signers[account],
+        fhevm,
+      }),
+      strategy,
+      maxGames,
+      maxStake,
+      log: (message) => console.log(message),
+    });
+    console.log(`Bot ${signers[account].address} playing ${strategy.name}`);
+
+    if (taskArguments.once) {
+      console.log(`Sent ${await bot.step()} transactions`);
+      return;
+    }
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    await bot.run(interval * 1000, controller.signal);
+  });
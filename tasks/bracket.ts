@@ -0,0 +1,117 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+  END_RULE_ROUNDS,
+  HonestHouseClient,
+  TOURNAMENT_CANCELLED,
+  TOURNAMENT_FINISHED,
+  TOURNAMENT_REGISTRATION,
+  TournamentClient,
+  ZERO_ADDRESS,
+  bracketRounds,
+} from "../client/HonestHouseClient";
+
+async function tournamentClient(hre: HardhatRuntimeEnvironment): Promise<TournamentClient> {
+  const { ethers, deployments } = hre;
+  const [signer] = await ethers.getSigners();
+  const deployment = await deployments.get("Tournament");
+  return new TournamentClient({ address: deployment.address, abi: deployment.abi, runner: signer });
+}
+
+function positiveInt(taskArguments: TaskArguments, name: string): number {
+  const value = parseInt(taskArguments[name]);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+task("task:create-tournament", "Opens registration for a single-elimination tournament of two-seat games")
+  .addOptionalParam("players", "Maximum number of players", "8")
+  .addOptionalParam("fee", "Entry fee in ETH, paid out to the champion", "0")
+  .addOptionalParam("joinWindow", "Seconds an opponent has to join a match game before a walkover, 0 for never", "0")
+  .addOptionalParam("rounds", "Number of rounds of every match game", "10")
+  .addOptionalParam("coins", "Starting coins for each player", "100")
+  .addOptionalParam("reward", "Score reward for winning a round", "10")
+  .addOptionalParam("timeout", "Turn timeout of every match game in seconds, 0 for none", "0")
+  .addFlag("forfeit", "Players who let a turn time out forfeit the match game")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const joinWindow = parseInt(taskArguments.joinWindow);
+    const turnTimeout = parseInt(taskArguments.timeout);
+    if (!Number.isInteger(joinWindow) || joinWindow < 0 || !Number.isInteger(turnTimeout) || turnTimeout < 0) {
+      throw new Error("joinWindow and timeout must be non-negative integers");
+    }
+
+    const tournaments = await tournamentClient(hre);
+    const tournamentId = await tournaments.createTournament(
+      {
+        startingCoins: positiveInt(taskArguments, "coins"),
+        roundReward: positiveInt(taskArguments, "reward"),
+        maxRounds: positiveInt(taskArguments, "rounds"),
+        splitTies: false,
+        endRule: END_RULE_ROUNDS,
+        turnTimeout,
+        forfeitOnTimeout: taskArguments.forfeit,
+        seatCount: 2,
+        stakeToken: ZERO_ADDRESS,
+        stakeAmount: 0n,
+        coinToken: ZERO_ADDRESS,
+        revealAfterGame: false,
+        spectatorDelay: 0,
+      },
+      positiveInt(taskArguments, "players"),
+      hre.ethers.parseEther(taskArguments.fee),
+      joinWindow,
+    );
+    console.log(`Tournament #${tournamentId} is open for registration`);
+  });
+
+task("task:bracket", "Prints the entrants and the bracket of a tournament")
+  .addParam("id", "Tournament id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const tournaments = await tournamentClient(hre);
+    const tournamentId = positiveInt(taskArguments, "id");
+    const tournament = await tournaments.getTournament(tournamentId);
+    const status = {
+      [TOURNAMENT_REGISTRATION]: "registration open",
+      [TOURNAMENT_FINISHED]: `won by ${tournament.champion}`,
+      [TOURNAMENT_CANCELLED]: "cancelled",
+    }[tournament.status];
+    console.log(
+      `Tournament #${tournamentId}: ${tournament.entrants.length}/${tournament.maxPlayers} players, ` +
+        `prize ${hre.ethers.formatEther(tournament.prize)} ETH, ${status ?? "running"}`,
+    );
+
+    const rounds = bracketRounds(await tournaments.getBracket(tournamentId));
+    let matchIndex = 0;
+    rounds.forEach((round, i) => {
+      console.log(i === rounds.length - 1 ? "Final" : `Round ${i + 1}`);
+      for (const match of round) {
+        const [first, second] = match.players.map((player) => (player === ZERO_ADDRESS ? "-" : player));
+        const game = match.gameId > 0 ? ` game #${match.gameId}` : "";
+        const winner = match.winner === ZERO_ADDRESS ? "" : ` -> ${match.winner}`;
+        console.log(`  ${matchIndex++}. ${first} vs ${second}${game}${winner}`);
+      }
+    });
+  });
+
+// Settling a match game reports it through the tournament's settlement hook; this catches up on games whose hook
+// failed.
+task("task:report-games", "Reports every settled match game of a tournament so its winner advances")
+  .addParam("id", "Tournament id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const tournaments = await tournamentClient(hre);
+    const deployment = await deployments.get("HonestHouse");
+    const house = new HonestHouseClient({ address: deployment.address, abi: deployment.abi, runner: ethers.provider });
+    const tournamentId = positiveInt(taskArguments, "id");
+
+    let reported = 0;
+    for (const match of await tournaments.getBracket(tournamentId)) {
+      if (match.gameId > 0 && match.winner === ZERO_ADDRESS && (await house.getGameSummary(match.gameId)).settled) {
+        await tournaments.reportGame(match.gameId);
+        reported++;
+      }
+    }
+    console.log(`Reported ${reported} settled match games of tournament #${tournamentId}`);
+  });
@@ -0,0 +1,132 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { createHouseApi } from "../indexer/HouseApi";
+import { HouseIndexer, JsonSnapshotStore, summarize } from "../indexer/HouseIndexer";
+import type { IndexStats } from "../indexer/HouseIndexer";
+
+const DAY = 24 * 60 * 60;
+
+function snapshotPath(hre: HardhatRuntimeEnvironment, out?: string) {
+  return out ?? `indexer-data/${hre.network.name}.json`;
+}
+
+function printStats(stats: IndexStats, days: number) {
+  console.log(
+    `Games: ${stats.games} (open ${stats.open}, active ${stats.active}, finished ${stats.finished}, cancelled ${stats.cancelled})`,
+  );
+  console.log(`Finished in the last ${days} days: ${stats.finishedSince}`);
+  console.log(`Average rounds per finished game: ${stats.averageRounds.toFixed(2)}`);
+  console.log(`Submissions: ${stats.submissions}`);
+}
+
+// Builds an indexer over the deployed house, resuming from the snapshot if there is one.
+async function houseIndexer(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments): Promise<HouseIndexer> {
+  const { ethers, deployments } = hre;
+  const batchSize = parseInt(taskArguments.batch);
+  const confirmations = parseInt(taskArguments.confirmations);
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error("batch must be a positive integer");
+  }
+  if (!Number.isInteger(confirmations) || confirmations < 0) {
+    throw new Error("confirmations must be a non-negative integer");
+  }
+
+  const deployment = await deployments.get("HonestHouse");
+  const fromBlock =
+    taskArguments.from !== undefined ? parseInt(taskArguments.from) : (deployment.receipt?.blockNumber ?? 0);
+  return new HouseIndexer({
+    address: deployment.address,
+    abi: deployment.abi,
+    provider: ethers.provider,
+    store: new JsonSnapshotStore(snapshotPath(hre, taskArguments.out)),
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    fromBlock,
+    batchSize,
+    confirmations,
+    log: console.error,
+  });
+}
+
+function pollInterval(taskArguments: TaskArguments) {
+  const interval = parseInt(taskArguments.interval);
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error("interval must be a positive integer");
+  }
+  return interval * 1000;
+}
+
+function interrupted(): AbortSignal {
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  return controller.signal;
+}
+
+task("task:index", "Replays HonestHouse events into a local snapshot, resuming from its last checkpoint")
+  .addOptionalParam("out", "Snapshot file (defaults to indexer-data/<network>.json)")
+  .addOptionalParam("from", "Block to start from when the snapshot is empty (defaults to the deployment block)")
+  .addOptionalParam("batch", "Blocks fetched per query", "2000")
+  .addOptionalParam("confirmations", "Blocks to stay behind the chain head", "0")
+  .addFlag("follow", "Keep following new blocks until interrupted")
+  .addOptionalParam("interval", "Seconds between polls when following", "5")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const interval = pollInterval(taskArguments);
+    const indexer = await houseIndexer(hre, taskArguments);
+
+    const applied = await indexer.sync();
+    console.log(
+      `Indexed ${applied} events up to block ${indexer.snapshot.lastBlock} into ${snapshotPath(hre, taskArguments.out)}`,
+    );
+    printStats(summarize(indexer.snapshot, Math.floor(Date.now() / 1000) - 7 * DAY), 7);
+
+    if (taskArguments.follow) {
+      console.log("Following new blocks, press Ctrl+C to stop");
+      await indexer.follow(interval, interrupted(), (count) => {
+        if (count > 0) {
+          console.log(`Indexed ${count} events up to block ${indexer.snapshot.lastBlock}`);
+        }
+      });
+    }
+  });
+
+task("task:serve", "Serves the indexed games over a read-only HTTP/JSON API while following new blocks")
+  .addOptionalParam("port", "Port to listen on", "8787")
+  .addOptionalParam("out", "Snapshot file (defaults to indexer-data/<network>.json)")
+  .addOptionalParam("from", "Block to start from when the snapshot is empty (defaults to the deployment block)")
+  .addOptionalParam("batch", "Blocks fetched per query", "2000")
+  .addOptionalParam("confirmations", "Blocks to stay behind the chain head", "0")
+  .addOptionalParam("interval", "Seconds between polls for new blocks", "2")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const port = parseInt(taskArguments.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error("port must be an integer between 0 and 65535");
+    }
+    const interval = pollInterval(taskArguments);
+    const indexer = await houseIndexer(hre, taskArguments);
+    await indexer.sync();
+
+    const server = createHouseApi(indexer);
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    console.log(`Serving games indexed up to block ${indexer.snapshot.lastBlock} on http://localhost:${port}`);
+
+    const signal = interrupted();
+    await indexer.follow(interval, signal);
+    server.closeAllConnections();
+    server.close();
+  });
+
+task("task:index-stats", "Prints game statistics from the local snapshot")
+  .addOptionalParam("out", "Snapshot file (defaults to indexer-data/<network>.json)")
+  .addOptionalParam("days", "Window for counting finished games", "7")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const days = parseInt(taskArguments.days);
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error("days must be a positive integer");
+    }
+    const store = new JsonSnapshotStore(snapshotPath(hre, taskArguments.out));
+    const snapshot = store.load();
+    if (!snapshot) {
+      throw new Error(`No snapshot at ${store.path}, run task:index first`);
+    }
+    console.log(`Snapshot of ${snapshot.contract} up to block ${snapshot.lastBlock}`);
+    printStats(summarize(snapshot, Math.floor(Date.now() / 1000) - days * DAY), days);
+  });
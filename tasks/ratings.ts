@@ -0,0 +1,53 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { HonestHouseClient, RatingsClient } from "../client/HonestHouseClient";
+
+async function ratingsClient(hre: HardhatRuntimeEnvironment): Promise<RatingsClient> {
+  const { ethers, deployments } = hre;
+  const [signer] = await ethers.getSigners();
+  const deployment = await deployments.get("Ratings");
+  return new RatingsClient({ address: deployment.address, abi: deployment.abi, runner: signer });
+}
+
+task("task:leaderboard", "Prints the highest rated players and their records")
+  .addOptionalParam("limit", "Number of players to list", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const limit = parseInt(taskArguments.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("limit must be a positive integer");
+    }
+
+    const standings = await (await ratingsClient(hre)).getLeaderboard(limit);
+    if (standings.length === 0) {
+      console.log("No rated players yet");
+      return;
+    }
+    standings.forEach(({ player, stats }, i) => {
+      console.log(`${i + 1}. ${player} ${stats.rating} (${stats.wins} W / ${stats.losses} L / ${stats.draws} D)`);
+    });
+  });
+
+// Settled games only count once someone records them; this catches up on every game the frontend did not record.
+task("task:record-ratings", "Records every settled game the Ratings contract has not counted yet")
+  .addOptionalParam("from", "First game id to check", "1")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const from = parseInt(taskArguments.from);
+    if (!Number.isInteger(from) || from < 1) {
+      throw new Error("from must be a positive integer");
+    }
+
+    const ratings = await ratingsClient(hre);
+    const deployment = await deployments.get("HonestHouse");
+    const house = new HonestHouseClient({ address: deployment.address, abi: deployment.abi, runner: ethers.provider });
+    const nextGameId = Number(await house.contract.nextGameId());
+
+    let recorded = 0;
+    for (let gameId = from; gameId < nextGameId; gameId++) {
+      if ((await house.getGameSummary(gameId)).settled && !(await ratings.isRecorded(gameId))) {
+        await ratings.recordGame(gameId);
+        recorded++;
+      }
+    }
+    console.log(`Recorded ${recorded} of ${Math.max(nextGameId - from, 0)} games`);
+  });
@@ -0,0 +1,136 @@
+import { writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { playRoundRobin, standingsCsv } from "../bot/roundRobin";
+import type { Standing } from "../bot/roundRobin";
+import { loadStrategy } from "../bot/strategies";
+import { END_RULE_COINS, END_RULE_ROUNDS, HOUSE_LIBRARIES, HonestHouseClient } from "../client/HonestHouseClient";
+
+function printStandings(standings: Standing[]) {
+  const rows = [
+    ["#", "Strategy", "P", "W", "D", "L", "Score", "Avg score", "Avg coins left"],
+    ...standings.map((standing) => [
+      String(standing.rank),
+      standing.strategy,
+      String(standing.played),
+      String(standing.wins),
+      String(standing.draws),
+      String(standing.losses),
+      String(standing.totalScore),
+      standing.averageScore.toFixed(1),
+      standing.averageCoinsLeft.toFixed(1),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  for (const row of rows) {
+    console.log(
+      row
+        .map((cell, column) => (column === 1 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+        .join("  "),
+    );
+  }
+}
+
+task("task:tournament", "Plays bidding strategies against each other on a fresh HonestHouse and ranks them")
+  .addOptionalParam(
+    "strategies",
+    "Comma-separated strategies: fixed:<fraction>, random, adaptive[:<step>] or paths to strategy modules",
+    "fixed:0.1,fixed:0.3,random,adaptive",
+  )
+  .addOptionalParam("games", "Games played by every pair; sides alternate who creates the game", "2")
+  .addOptionalParam("rule", "End rule: rounds or coins", "rounds")
+  .addOptionalParam("rounds", "Number of rounds for the rounds end rule", "10")
+  .addOptionalParam("coins", "Starting coins for each player", "100")
+  .addOptionalParam("reward", "Score reward for winning a round", "10")
+  .addFlag("splitTies", "Split the round reward between both players on a tie")
+  .addOptionalParam("out", "Write the results to a .json or .csv file")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    if (hre.network.name === "hardhat") {
+      throw new Error(
+        "The FHEVM mock only runs in-process under `hardhat test`; start `npx hardhat node` and run the tournament " +
+          "with --network localhost",
+      );
+    }
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error("task:tournament only runs against the FHEVM mock of a local hardhat node");
+    }
+
+    const endRule = ["rounds", "coins"].indexOf(taskArguments.rule);
+    const maxRounds = endRule === END_RULE_ROUNDS ? parseInt(taskArguments.rounds) : 0;
+    const startingCoins = parseInt(taskArguments.coins);
+    const roundReward = parseInt(taskArguments.reward);
+    const gamesPerPair = parseInt(taskArguments.games);
+    if (endRule < 0) {
+      throw new Error("rule must be one of rounds, coins");
+    }
+    if (endRule === END_RULE_ROUNDS && (!Number.isInteger(maxRounds) || maxRounds < 1 || maxRounds > 255)) {
+      throw new Error("rounds must be an integer between 1 and 255");
+    }
+    if (!Number.isInteger(startingCoins) || startingCoins < 1 || !Number.isInteger(roundReward) || roundReward < 1) {
+      throw new Error("coins and reward must be positive integers");
+    }
+    if (!Number.isInteger(gamesPerPair) || gamesPerPair < 1) {
+      throw new Error("games must be a positive integer");
+    }
+    const out: string | undefined = taskArguments.out;
+    if (out !== undefined && !out.endsWith(".json") && !out.endsWith(".csv")) {
+      throw new Error("out must end in .json or .csv");
+    }
+
+    const strategies = await Promise.all(
+      (taskArguments.strategies as string).split(",").map((spec) => loadStrategy(spec.trim())),
+    );
+    const [deployer, ...players] = await ethers.getSigners();
+    if (strategies.length < 2 || strategies.length > players.length) {
+      throw new Error(`Pick between 2 and ${players.length} strategies`);
+    }
+
+    // HonestHouse links against its libraries, so deploy a fresh copy of each first.
+    const libraries: Record<string, string> = {};
+    for (const name of HOUSE_LIBRARIES) {
+      libraries[name] = await (await ethers.deployContract(name, deployer)).getAddress();
+    }
+    const house = await ethers.deployContract("HonestHouse", { libraries, signer: deployer });
+    await house.waitForDeployment();
+    const address = await house.getAddress();
+    const abi = house.interface.formatJson();
+    console.log(`Deployed a fresh HonestHouse at ${address}`);
+
+    const entrants = strategies.map((strategy, i) => ({
+      strategy,
+      client: new HonestHouseClient({ address, abi, runner: players[i], fhevm }),
+    }));
+    const result = await playRoundRobin(
+      entrants,
+      {
+        startingCoins,
+        roundReward,
+        maxRounds,
+        splitTies: taskArguments.splitTies,
+        endRule: endRule === END_RULE_COINS ? END_RULE_COINS : END_RULE_ROUNDS,
+        turnTimeout: 0,
+        forfeitOnTimeout: false,
+        seatCount: 2,
+        stakeToken: ethers.ZeroAddress,
+        stakeAmount: 0n,
+        coinToken: ethers.ZeroAddress,
+        revealAfterGame: false,
+        spectatorDelay: 0,
+      },
+      gamesPerPair,
+      (message) => console.log(message),
+    );
+
+    console.log("");
+    printStandings(result.standings);
+
+    if (out !== undefined) {
+      const contents = out.endsWith(".csv")
+        ? standingsCsv(result.standings)
+        : JSON.stringify(result, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+      writeFileSync(out, contents);
+      console.log(`Wrote the results to ${out}`);
+    }
+  });
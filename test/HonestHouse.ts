@@ -1,18 +1,42 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
-import { HonestHouse, HonestHouse__factory } from "../types";
+import {
+  ConfidentialToken,
+  ConfidentialToken__factory,
+  HonestHouse,
+  HonestHouse__factory,
+  MockERC20,
+  MockERC20__factory,
+  ReentrantCoinToken__factory,
+} from "../types";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  DecryptionSession,
+  HonestHouseClient,
+  HonestHouseError,
+  SPECTATE_AFTER_GAME,
+} from "../client/HonestHouseClient";
+import type { FhevmInstance } from "../client/HonestHouseClient";
+import { deployHouse, gameRules } from "./fixtures";
 
 type Signers = {
   alice: HardhatEthersSigner;
   bob: HardhatEthersSigner;
   carol: HardhatEthersSigner;
+  others: HardhatEthersSigner[];
 };
 
+const COINS_EXHAUSTED = 1;
+
+const LISTING_ALL = 0;
+const LISTING_OPEN = 1;
+const LISTING_ACTIVE = 2;
+const LISTING_FINISHED = 3;
+
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("HonestHouse")) as HonestHouse__factory;
-  const contract = (await factory.deploy()) as HonestHouse;
+  const contract = await deployHouse();
   const address = await contract.getAddress();
   return { contract, address };
 }
@@ -24,7 +48,7 @@ describe("HonestHouse", function () {
 
   before(async function () {
     const accounts: HardhatEthersSigner[] = await ethers.getSigners();
-    signers = { alice: accounts[0], bob: accounts[1], carol: accounts[2] };
+    signers = { alice: accounts[0], bob: accounts[1], carol: accounts[2], others: accounts.slice(3) };
   });
 
   beforeEach(async function () {
@@ -45,8 +69,19 @@ describe("HonestHouse", function () {
     return { coins: BigInt(coins), score: BigInt(score), submitted: state.hasSubmitted, seat: state.seat };
   }
 
+  async function submit(player: HardhatEthersSigner, amount: number, gameId = 1) {
+    const input = await fhevm.createEncryptedInput(contractAddress, player.address).add32(amount).encrypt();
+    return contract.connect(player).submitCoins(gameId, input.handles[0], input.inputProof);
+  }
+
+  async function settle(gameId = 1) {
+    const result = await contract.getGameResult(gameId);
+    const decrypted = await fhevm.publicDecrypt([result.encryptedOutcome]);
+    return contract.settleGame(gameId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+  }
+
   it("seats creator with encrypted coins and score", async function () {
-    const tx = await contract.connect(signers.alice).createGame();
+    const tx = await contract.connect(signers.alice).createGame(gameRules());
     await tx.wait();
 
     const summary = await contract.getGameSummary(1);
@@ -63,7 +98,7 @@ describe("HonestHouse", function () {
   });
 
   it("resolves a round and rewards the higher contribution", async function () {
-    await contract.connect(signers.alice).createGame();
+    await contract.connect(signers.alice).createGame(gameRules());
     await contract.connect(signers.bob).joinGame(1);
     await contract.connect(signers.alice).startGame(1);
 
@@ -86,7 +121,7 @@ describe("HonestHouse", function () {
   });
 
   it("clamps submissions that exceed the remaining coins", async function () {
-    await contract.connect(signers.alice).createGame();
+    await contract.connect(signers.alice).createGame(gameRules());
     await contract.connect(signers.bob).joinGame(1);
     await contract.connect(signers.alice).startGame(1);
 
@@ -103,4 +138,1076 @@ describe("HonestHouse", function () {
     expect(bobState.coins).to.equal(BigInt(99));
     expect(bobState.score).to.equal(BigInt(10));
   });
+
+  it("lets each player decrypt whether their last bid was covered", async function () {
+    await contract.connect(signers.alice).createGame(gameRules());
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 101);
+    await submit(signers.bob, 100);
+
+    const aliceState = await contract.getPlayerState(1, signers.alice.address);
+    const bobState = await contract.getPlayerState(1, signers.bob.address);
+    expect(await fhevm.userDecryptEbool(aliceState.lastCanSpend, contractAddress, signers.alice)).to.equal(false);
+    expect(await fhevm.userDecryptEbool(bobState.lastCanSpend, contractAddress, signers.bob)).to.equal(true);
+
+    let decryptedOpponent = true;
+    try {
+      await fhevm.userDecryptEbool(aliceState.lastCanSpend, contractAddress, signers.bob);
+    } catch {
+      decryptedOpponent = false;
+    }
+    expect(decryptedOpponent).to.equal(false);
+  });
+
+  it("finishes after the round limit and settles the decrypted winner", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 2 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 5);
+    await submit(signers.bob, 20);
+    await submit(signers.alice, 4);
+    await expect(submit(signers.bob, 30)).to.emit(contract, "GameFinished");
+
+    const summary = await contract.getGameSummary(1);
+    expect(summary.finished).to.equal(true);
+    expect(summary.settled).to.equal(false);
+    expect(summary.round).to.equal(2);
+
+    await expect(submit(signers.alice, 1)).to.be.revertedWith("Game finished");
+
+    await expect(settle()).to.emit(contract, "GameSettled").withArgs(1, signers.bob.address, false);
+
+    const settled = await contract.getGameSummary(1);
+    expect(settled.settled).to.equal(true);
+    expect(settled.winner).to.equal(signers.bob.address);
+    await expect(settle()).to.be.revertedWith("Game already settled");
+  });
+
+  it("settles a draw when scores are equal", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 2 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 10);
+    await submit(signers.bob, 1);
+    await submit(signers.alice, 1);
+    await submit(signers.bob, 10);
+
+    await expect(settle()).to.emit(contract, "GameSettled").withArgs(1, ethers.ZeroAddress, true);
+  });
+
+  it("settles a game whose settlement hook reverts or has no code", async function () {
+    // A token contract has no onGameSettled, so calling it as a hook reverts.
+    const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+    const hook = await (await tokenFactory.deploy("Mock Token", "MOCK")).getAddress();
+    for (const gameHook of [hook, signers.carol.address]) {
+      const gameId = Number(await contract.nextGameId());
+      await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 1 }));
+      await expect(contract.connect(signers.bob).setSettlementHook(gameId, gameHook)).to.be.revertedWith(
+        "Not game creator",
+      );
+      await contract.connect(signers.alice).setSettlementHook(gameId, gameHook);
+      expect(await contract.getSettlementHook(gameId)).to.equal(gameHook);
+      await contract.connect(signers.bob).joinGame(gameId);
+      await contract.connect(signers.alice).startGame(gameId);
+      await expect(contract.connect(signers.alice).setSettlementHook(gameId, ethers.ZeroAddress)).to.be.revertedWith(
+        "Game already started",
+      );
+
+      await submit(signers.alice, 20, gameId);
+      await submit(signers.bob, 10, gameId);
+      await expect(settle(gameId)).to.emit(contract, "GameSettled").withArgs(gameId, signers.alice.address, false);
+    }
+  });
+
+  it("finishes a coins exhausted game once the flag is publicly confirmed", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ endRule: COINS_EXHAUSTED, maxRounds: 0 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    async function confirm() {
+      const result = await contract.getGameResult(1);
+      const decrypted = await fhevm.publicDecrypt([result.coinsExhausted]);
+      return contract.confirmCoinsExhausted(1, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+    }
+
+    await submit(signers.alice, 100);
+    await submit(signers.bob, 60);
+    await expect(confirm()).to.be.revertedWith("Coins remaining");
+
+    await submit(signers.alice, 0);
+    await submit(signers.bob, 40);
+    await expect(confirm()).to.emit(contract, "GameFinished");
+
+    const summary = await contract.getGameSummary(1);
+    expect(summary.finished).to.equal(true);
+    expect(summary.round).to.equal(2);
+
+    await expect(settle()).to.emit(contract, "GameSettled").withArgs(1, ethers.ZeroAddress, true);
+  });
+
+  it("finishes a coins exhausted game at the last round the counter holds", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ endRule: COINS_EXHAUSTED, maxRounds: 0 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    for (let round = 1; round < 255; round++) {
+      await submit(signers.alice, 0);
+      await submit(signers.bob, 0);
+    }
+    expect((await contract.getGameSummary(1)).finished).to.equal(false);
+
+    await submit(signers.alice, 0);
+    await expect(submit(signers.bob, 0)).to.emit(contract, "GameFinished");
+    expect((await contract.getGameSummary(1)).round).to.equal(255);
+    await expect(settle()).to.emit(contract, "GameSettled").withArgs(1, ethers.ZeroAddress, true);
+  });
+
+  it("applies the starting coins and reward chosen at creation", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ startingCoins: 30, roundReward: 4, maxRounds: 3 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 12);
+    await submit(signers.bob, 11);
+
+    const summary = await contract.getGameSummary(1);
+    expect(summary.rules.startingCoins).to.equal(30);
+    expect(summary.rules.roundReward).to.equal(4);
+    expect(summary.rules.maxRounds).to.equal(3);
+
+    const aliceState = await decryptBalance(signers.alice);
+    const bobState = await decryptBalance(signers.bob);
+    expect(aliceState.coins).to.equal(BigInt(18));
+    expect(aliceState.score).to.equal(BigInt(4));
+    expect(bobState.coins).to.equal(BigInt(19));
+    expect(bobState.score).to.equal(BigInt(0));
+  });
+
+  it("splits the reward on ties when the rules ask for it", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ splitTies: true }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 8);
+    await submit(signers.bob, 8);
+
+    expect((await decryptBalance(signers.alice)).score).to.equal(BigInt(5));
+    expect((await decryptBalance(signers.bob)).score).to.equal(BigInt(5));
+  });
+
+  it("rejects invalid rules", async function () {
+    await expect(contract.createGame(gameRules({ startingCoins: 0 }))).to.be.revertedWith("Invalid starting coins");
+    await expect(contract.createGame(gameRules({ roundReward: 0 }))).to.be.revertedWith("Invalid round reward");
+    await expect(contract.createGame(gameRules({ maxRounds: 0 }))).to.be.revertedWith("Invalid round limit");
+  });
+
+  it("resolves a stalled round with a zero contribution after the deadline", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ turnTimeout: 300 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 3);
+    await expect(contract.connect(signers.alice).claimTimeout(1)).to.be.revertedWith("Deadline not reached");
+
+    await time.increase(301);
+    await expect(contract.connect(signers.bob).claimTimeout(1)).to.be.revertedWith("Submit before claiming");
+    await expect(contract.connect(signers.alice).claimTimeout(1))
+      .to.emit(contract, "TimeoutClaimed")
+      .withArgs(1, signers.alice.address, 1, false);
+
+    const status = await contract.getRoundStatus(1);
+    expect(status.round).to.equal(2);
+    expect(status.deadline).to.equal(BigInt(await time.latest()) + 300n);
+    expect((await decryptBalance(signers.alice)).score).to.equal(BigInt(10));
+    expect((await decryptBalance(signers.bob)).coins).to.equal(BigInt(100));
+  });
+
+  it("forfeits the game to the waiting player when the rules ask for it", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ turnTimeout: 60, forfeitOnTimeout: true }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.bob, 1);
+    await time.increase(61);
+    await expect(contract.connect(signers.bob).claimTimeout(1))
+      .to.emit(contract, "GameSettled")
+      .withArgs(1, signers.bob.address, false);
+
+    const summary = await contract.getGameSummary(1);
+    expect(summary.finished).to.equal(true);
+    expect(summary.settled).to.equal(true);
+    expect(summary.winner).to.equal(signers.bob.address);
+
+    // The outcome of a forfeit decrypts like any other: the winning seat plus one.
+    const result = await contract.getGameResult(1);
+    const decrypted = await fhevm.publicDecrypt([result.encryptedOutcome]);
+    expect(decrypted.clearValues[result.encryptedOutcome as `0x${string}`]).to.equal(2n);
+  });
+
+  it("does not allow timeout claims without a turn timeout", async function () {
+    await contract.connect(signers.alice).createGame(gameRules());
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 3);
+    await expect(contract.connect(signers.alice).claimTimeout(1)).to.be.revertedWith("No turn timeout");
+  });
+
+  it("frees seat two when the joiner leaves before the start", async function () {
+    await contract.connect(signers.alice).createGame(gameRules());
+    await contract.connect(signers.bob).joinGame(1);
+
+    await expect(contract.connect(signers.bob).leaveGame(1))
+      .to.emit(contract, "PlayerLeft")
+      .withArgs(1, signers.bob.address);
+
+    const summary = await contract.getGameSummary(1);
+    expect(summary.players[1]).to.equal(ethers.ZeroAddress);
+    await expect(contract.connect(signers.alice).startGame(1)).to.be.revertedWith("Seats not filled");
+
+    await contract.connect(signers.carol).joinGame(1);
+    expect((await contract.getGameSummary(1)).players[1]).to.equal(signers.carol.address);
+  });
+
+  it("cancels the game when the creator leaves and hides it from the lobby", async function () {
+    await contract.connect(signers.alice).createGame(gameRules());
+    await contract.connect(signers.bob).createGame(gameRules());
+    await contract.connect(signers.carol).joinGame(1);
+
+    await expect(contract.connect(signers.alice).leaveGame(1)).to.emit(contract, "GameCancelled").withArgs(1);
+
+    expect((await contract.getGameSummary(1)).cancelled).to.equal(true);
+    const [games, total] = await contract.getGames(0, 10, LISTING_OPEN);
+    expect(games.map((game) => game.gameId)).to.deep.equal([2n]);
+    expect(total).to.equal(1n);
+
+    await expect(contract.connect(signers.carol).startGame(1)).to.be.revertedWith("Game cancelled");
+    await expect(contract.connect(signers.bob).joinGame(1)).to.be.revertedWith("Game cancelled");
+  });
+
+  it("pages through games by lifecycle stage and counts them", async function () {
+    for (let i = 0; i < 5; i++) {
+      await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 1 }));
+    }
+    await contract.connect(signers.bob).joinGame(2);
+    await contract.connect(signers.bob).startGame(2);
+    await contract.connect(signers.bob).joinGame(4);
+    await contract.connect(signers.alice).startGame(4);
+    const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(1).encrypt();
+    await contract.connect(signers.alice).submitCoins(4, input.handles[0], input.inputProof);
+    const bobInput = await fhevm.createEncryptedInput(contractAddress, signers.bob.address).add32(2).encrypt();
+    await contract.connect(signers.bob).submitCoins(4, bobInput.handles[0], bobInput.inputProof);
+    await contract.connect(signers.alice).leaveGame(5);
+
+    expect(await contract.getGameCounts()).to.deep.equal([2n, 1n, 1n]);
+
+    const ids = async (offset: number, limit: number, listing: number) => {
+      const [games, total] = await contract.getGames(offset, limit, listing);
+      return { ids: games.map((game) => Number(game.gameId)), total: Number(total) };
+    };
+    expect(await ids(0, 10, LISTING_OPEN)).to.deep.equal({ ids: [1, 3], total: 2 });
+    expect(await ids(0, 10, LISTING_ACTIVE)).to.deep.equal({ ids: [2], total: 1 });
+    expect(await ids(0, 10, LISTING_FINISHED)).to.deep.equal({ ids: [4], total: 1 });
+    expect(await ids(1, 2, LISTING_ALL)).to.deep.equal({ ids: [2, 3], total: 5 });
+    expect(await ids(4, 2, LISTING_ALL)).to.deep.equal({ ids: [5], total: 5 });
+    expect(await ids(9, 2, LISTING_ALL)).to.deep.equal({ ids: [], total: 5 });
+  });
+
+  it("indexes the games each player is seated in and whose turn it is", async function () {
+    await contract.connect(signers.alice).createGame(gameRules());
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.bob).startGame(1);
+    await contract.connect(signers.alice).createGame(gameRules());
+    await contract.connect(signers.carol).createGame(gameRules());
+    await contract.connect(signers.bob).joinGame(3);
+    await contract.connect(signers.bob).joinGame(2);
+    await contract.connect(signers.bob).leaveGame(3);
+    await submit(signers.alice, 10);
+
+    const mine = async (player: HardhatEthersSigner, offset = 0, limit = 10) => {
+      const [games, awaiting, total] = await contract.getGamesByPlayer(player.address, offset, limit);
+      return { ids: games.map((game) => Number(game.gameId)), awaiting, total: Number(total) };
+    };
+    expect(await mine(signers.alice)).to.deep.equal({ ids: [1, 2], awaiting: [false, false], total: 2 });
+    expect(await mine(signers.bob)).to.deep.equal({ ids: [1, 2], awaiting: [true, false], total: 2 });
+    expect(await mine(signers.bob, 1, 1)).to.deep.equal({ ids: [2], awaiting: [false], total: 2 });
+    expect(await mine(signers.carol)).to.deep.equal({ ids: [3], awaiting: [false], total: 1 });
+
+    await contract.connect(signers.bob).joinGame(3);
+    expect((await mine(signers.bob)).ids).to.deep.equal([1, 2, 3]);
+  });
+
+  it("does not allow leaving a started game", async function () {
+    await contract.connect(signers.alice).createGame(gameRules());
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await expect(contract.connect(signers.bob).leaveGame(1)).to.be.revertedWith("Game already started");
+    await expect(contract.connect(signers.carol).leaveGame(2)).to.be.revertedWith("Game not found");
+  });
+
+  it("rewards the single highest contribution among four seats", async function () {
+    const [dave] = signers.others;
+    await contract.connect(signers.alice).createGame(gameRules({ seatCount: 4 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.carol).joinGame(1);
+    await expect(contract.connect(signers.alice).startGame(1)).to.be.revertedWith("Seats not filled");
+    await contract.connect(dave).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 4);
+    await submit(signers.bob, 9);
+    await submit(signers.carol, 7);
+
+    const pending = await contract.getRoundStatus(1);
+    expect(pending.submitted).to.deep.equal([true, true, true, false]);
+    expect(pending.contributions.length).to.equal(4);
+
+    await submit(dave, 2);
+
+    expect((await decryptBalance(signers.bob)).score).to.equal(BigInt(10));
+    for (const player of [signers.alice, signers.carol, dave]) {
+      expect((await decryptBalance(player)).score).to.equal(BigInt(0));
+    }
+    expect((await contract.getRoundStatus(1)).round).to.equal(2);
+  });
+
+  it("shares the reward when several seats tie for the top", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ seatCount: 3, roundReward: 12, splitTies: true }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.carol).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 6);
+    await submit(signers.bob, 6);
+    await submit(signers.carol, 1);
+
+    expect((await decryptBalance(signers.alice)).score).to.equal(BigInt(6));
+    expect((await decryptBalance(signers.bob)).score).to.equal(BigInt(6));
+    expect((await decryptBalance(signers.carol)).score).to.equal(BigInt(0));
+
+    await submit(signers.alice, 3);
+    await submit(signers.bob, 3);
+    await submit(signers.carol, 3);
+
+    expect((await decryptBalance(signers.carol)).score).to.equal(BigInt(4));
+  });
+
+  it("plays and settles a full eight seat game", async function () {
+    const players = [signers.alice, signers.bob, signers.carol, ...signers.others.slice(0, 5)];
+    await contract.connect(signers.alice).createGame(gameRules({ seatCount: 8, maxRounds: 1 }));
+    for (const player of players.slice(1)) {
+      await contract.connect(player).joinGame(1);
+    }
+    await expect(contract.connect(signers.others[5]).joinGame(1)).to.be.revertedWith("Game full");
+    await contract.connect(signers.alice).startGame(1);
+
+    for (const [index, player] of players.entries()) {
+      await submit(player, index === 5 ? 50 : index + 1);
+    }
+
+    expect((await contract.getGameSummary(1)).finished).to.equal(true);
+    await expect(settle()).to.emit(contract, "GameSettled").withArgs(1, players[5].address, false);
+  });
+
+  it("rejects seat counts outside two to eight", async function () {
+    await expect(contract.createGame(gameRules({ seatCount: 1 }))).to.be.revertedWith("Invalid seat count");
+    await expect(contract.createGame(gameRules({ seatCount: 9 }))).to.be.revertedWith("Invalid seat count");
+  });
+
+  it("escrows ETH stakes and lets the winner withdraw the pot", async function () {
+    const stake = ethers.parseEther("1");
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 1, stakeAmount: stake }), { value: stake });
+    await expect(contract.connect(signers.bob).joinGame(1)).to.be.revertedWith("Incorrect stake");
+    await contract.connect(signers.bob).joinGame(1, { value: stake });
+    expect(await ethers.provider.getBalance(contractAddress)).to.equal(stake * 2n);
+
+    await contract.connect(signers.alice).startGame(1);
+    await submit(signers.alice, 20);
+    await submit(signers.bob, 5);
+    await settle();
+
+    expect(await contract.pendingWithdrawals(ethers.ZeroAddress, signers.alice.address)).to.equal(stake * 2n);
+    expect(await contract.pendingWithdrawals(ethers.ZeroAddress, signers.bob.address)).to.equal(0n);
+    await expect(contract.connect(signers.bob).withdraw(ethers.ZeroAddress)).to.be.revertedWith("Nothing to withdraw");
+
+    await expect(contract.connect(signers.alice).withdraw(ethers.ZeroAddress)).to.changeEtherBalances(
+      [signers.alice, contract],
+      [stake * 2n, -stake * 2n],
+    );
+    expect(await contract.pendingWithdrawals(ethers.ZeroAddress, signers.alice.address)).to.equal(0n);
+  });
+
+  it("returns ERC-20 stakes to both players on a draw", async function () {
+    const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+    const token = (await tokenFactory.deploy("Mock Token", "MOCK")) as MockERC20;
+    const tokenAddress = await token.getAddress();
+    const stake = 500n;
+    for (const player of [signers.alice, signers.bob]) {
+      await token.mint(player.address, stake);
+      await token.connect(player).approve(contractAddress, stake);
+    }
+
+    const stakeRules = gameRules({ maxRounds: 1, stakeToken: tokenAddress, stakeAmount: stake });
+    await expect(contract.createGame(gameRules({ stakeToken: tokenAddress }))).to.be.revertedWith("Invalid stake");
+    await expect(contract.connect(signers.alice).createGame(stakeRules, { value: 1 })).to.be.revertedWith(
+      "Incorrect stake",
+    );
+    await contract.connect(signers.alice).createGame(stakeRules);
+    await contract.connect(signers.bob).joinGame(1);
+    expect(await token.balanceOf(contractAddress)).to.equal(stake * 2n);
+
+    await contract.connect(signers.alice).startGame(1);
+    await submit(signers.alice, 7);
+    await submit(signers.bob, 7);
+    await expect(settle()).to.emit(contract, "GameSettled").withArgs(1, ethers.ZeroAddress, true);
+
+    for (const player of [signers.alice, signers.bob]) {
+      await expect(contract.connect(player).withdraw(tokenAddress))
+        .to.emit(contract, "StakeWithdrawn")
+        .withArgs(player.address, tokenAddress, stake);
+      expect(await token.balanceOf(player.address)).to.equal(stake);
+    }
+    expect(await token.balanceOf(contractAddress)).to.equal(0n);
+  });
+
+  it("refunds stakes when a joiner leaves or the creator cancels", async function () {
+    const stake = ethers.parseEther("0.5");
+    await contract.connect(signers.alice).createGame(gameRules({ seatCount: 3, stakeAmount: stake }), { value: stake });
+    await contract.connect(signers.bob).joinGame(1, { value: stake });
+    await contract.connect(signers.carol).joinGame(1, { value: stake });
+
+    await contract.connect(signers.bob).leaveGame(1);
+    expect(await contract.pendingWithdrawals(ethers.ZeroAddress, signers.bob.address)).to.equal(stake);
+
+    await contract.connect(signers.alice).leaveGame(1);
+    expect(await contract.pendingWithdrawals(ethers.ZeroAddress, signers.alice.address)).to.equal(stake);
+    expect(await contract.pendingWithdrawals(ethers.ZeroAddress, signers.carol.address)).to.equal(stake);
+  });
+
+  it("pays the pot to the waiting player when a stalling opponent forfeits", async function () {
+    const stake = ethers.parseEther("1");
+    await contract
+      .connect(signers.alice)
+      .createGame(gameRules({ turnTimeout: 60, forfeitOnTimeout: true, stakeAmount: stake }), { value: stake });
+    await contract.connect(signers.bob).joinGame(1, { value: stake });
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 4);
+    await time.increase(61);
+    await contract.connect(signers.alice).claimTimeout(1);
+
+    expect(await contract.pendingWithdrawals(ethers.ZeroAddress, signers.alice.address)).to.equal(stake * 2n);
+  });
+
+  it("archives each resolved round for its players to decrypt", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 3 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 12);
+    await submit(signers.bob, 30);
+    await submit(signers.alice, 9);
+    await submit(signers.bob, 9);
+
+    await expect(contract.getRoundHistory(1, 0, 2)).to.be.revertedWith("Invalid round range");
+    const history = await contract.getRoundHistory(1, 1, 10);
+    expect(history.map((record) => record.round)).to.deep.equal([1n, 2n]);
+
+    const decryptEntry = async (round: number, seat: number, player: HardhatEthersSigner) => ({
+      contribution: await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        history[round - 1].contributions[seat],
+        contractAddress,
+        player,
+      ),
+      won: await fhevm.userDecryptEbool(history[round - 1].won[seat], contractAddress, player),
+    });
+    expect(await decryptEntry(1, 0, signers.alice)).to.deep.equal({ contribution: 12n, won: false });
+    expect(await decryptEntry(1, 1, signers.bob)).to.deep.equal({ contribution: 30n, won: true });
+    // A tie without split ties is won by nobody.
+    expect(await decryptEntry(2, 0, signers.alice)).to.deep.equal({ contribution: 9n, won: false });
+    expect(await decryptEntry(2, 1, signers.bob)).to.deep.equal({ contribution: 9n, won: false });
+
+    let decryptedOpponent = true;
+    try {
+      await decryptEntry(1, 1, signers.alice);
+    } catch {
+      decryptedOpponent = false;
+    }
+    expect(decryptedOpponent).to.equal(false);
+
+    expect(await contract.getRoundHistory(1, 3, 3)).to.deep.equal([]);
+  });
+
+  it("publicly reveals every round of a finished game that opted in", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 2, revealAfterGame: true }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+
+    await submit(signers.alice, 12);
+    await submit(signers.bob, 30);
+    await expect(contract.openReveal(1, 1, 1)).to.be.revertedWith("Game not finished");
+    await submit(signers.alice, 150);
+    await submit(signers.bob, 4);
+
+    await expect(contract.openReveal(1, 1, 3)).to.be.revertedWith("Invalid round range");
+    await contract.openReveal(1, 1, 2);
+
+    const history = await contract.getRoundHistory(1, 1, 2);
+    const handles = history.flatMap((record) => [...record.contributions]);
+    const decrypted = await fhevm.publicDecrypt(handles);
+
+    await expect(
+      contract.confirmReveal(1, 2, 2, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+    ).to.be.revertedWith("Reveal rounds in order");
+    await expect(contract.confirmReveal(1, 1, 2, decrypted.abiEncodedClearValues, decrypted.decryptionProof))
+      .to.emit(contract, "GameRevealed")
+      .withArgs(1);
+
+    const revealed = await contract.getRoundHistory(1, 1, 2);
+    expect(revealed.map((record) => record.revealed)).to.deep.equal([true, true]);
+    // Alice's overspend in round two was clamped to zero.
+    expect(revealed.map((record) => [...record.revealedContributions])).to.deep.equal([
+      [12n, 30n],
+      [0n, 4n],
+    ]);
+  });
+
+  it("keeps contributions private unless the game opted in to a reveal", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 1 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+    await submit(signers.alice, 1);
+    await submit(signers.bob, 2);
+
+    await expect(contract.openReveal(1, 1, 1)).to.be.revertedWith("Reveal not enabled");
+  });
+
+  it("opens scores to registered spectators once a round is old enough", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 3 }));
+    await expect(contract.connect(signers.carol).registerSpectator(1)).to.be.revertedWith("Spectators not allowed");
+
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 3, spectatorDelay: 1 }));
+    await contract.connect(signers.bob).joinGame(2);
+    await contract.connect(signers.alice).startGame(2);
+    await expect(contract.connect(signers.carol).unlockScores(2, 1)).to.be.revertedWith("Not a spectator");
+    await expect(contract.connect(signers.bob).registerSpectator(2)).to.be.revertedWith("Players cannot spectate");
+    await expect(contract.connect(signers.carol).registerSpectator(2))
+      .to.emit(contract, "SpectatorRegistered")
+      .withArgs(2, signers.carol.address);
+
+    await submit(signers.alice, 12, 2);
+    await submit(signers.bob, 30, 2);
+    await expect(contract.connect(signers.carol).unlockScores(2, 1)).to.be.revertedWith("Round not visible");
+    await submit(signers.alice, 20, 2);
+    await submit(signers.bob, 5, 2);
+
+    const decryptScores = async (round: number) => {
+      const [record] = await contract.getRoundHistory(2, round, round);
+      const scores = [];
+      for (const score of record.scores) {
+        scores.push(await fhevm.userDecryptEuint(FhevmType.euint32, score, contractAddress, signers.carol));
+      }
+      return scores;
+    };
+    await contract.connect(signers.carol).unlockScores(2, 1);
+    expect(await decryptScores(1)).to.deep.equal([0n, 10n]);
+    let decryptedEarly = true;
+    try {
+      await decryptScores(2);
+    } catch {
+      decryptedEarly = false;
+    }
+    expect(decryptedEarly).to.equal(false);
+    await expect(contract.connect(signers.carol).unlockScores(2, 2)).to.be.revertedWith("Round not visible");
+
+    // Finishing the game opens every round, however recent.
+    await submit(signers.alice, 1, 2);
+    await submit(signers.bob, 1, 2);
+    await contract.connect(signers.carol).unlockScores(2, 3);
+    expect(await decryptScores(3)).to.deep.equal([10n, 10n]);
+    await expect(contract.connect(signers.alice).unlockScores(2, 3)).to.be.revertedWith("Players cannot spectate");
+  });
+
+  describe("with token-backed coins", function () {
+    let token: ConfidentialToken;
+    let tokenAddress: string;
+
+    beforeEach(async function () {
+      const factory = (await ethers.getContractFactory("ConfidentialToken")) as ConfidentialToken__factory;
+      token = (await factory.deploy("Honest Coin", "HCOIN")) as ConfidentialToken;
+      tokenAddress = await token.getAddress();
+
+      const until = (await time.latest()) + 3600;
+      for (const player of [signers.alice, signers.bob, signers.carol]) {
+        await token.mint(player.address, 150);
+        await token.connect(player).setOperator(contractAddress, until);
+      }
+    });
+
+    async function tokenBalance(player: HardhatEthersSigner) {
+      const handle = await token.confidentialBalanceOf(player.address);
+      return fhevm.userDecryptEuint(FhevmType.euint32, handle, tokenAddress, player);
+    }
+
+    it("funds seats from the token and pays the pot to the winner", async function () {
+      await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 2, coinToken: tokenAddress }));
+      await contract.connect(signers.bob).joinGame(1);
+      expect(await tokenBalance(signers.alice)).to.equal(50n);
+      expect((await decryptBalance(signers.bob)).coins).to.equal(100n);
+
+      await contract.connect(signers.alice).startGame(1);
+      await submit(signers.alice, 30);
+      await submit(signers.bob, 20);
+      await submit(signers.alice, 10);
+      await submit(signers.bob, 5);
+      expect((await contract.getGameSummary(1)).finished).to.equal(true);
+
+      // Claiming works from the encrypted outcome before anyone settles the game.
+      await expect(contract.connect(signers.alice).claimCoins(1))
+        .to.emit(contract, "CoinsClaimed")
+        .withArgs(1, signers.alice.address);
+      await contract.connect(signers.bob).claimCoins(1);
+
+      // Alice keeps her 60 unspent coins plus the 65 spent by both players.
+      expect(await tokenBalance(signers.alice)).to.equal(50n + 60n + 65n);
+      expect(await tokenBalance(signers.bob)).to.equal(50n + 75n);
+      await expect(contract.connect(signers.bob).claimCoins(1)).to.be.revertedWith("Coins already claimed");
+    });
+
+    it("returns every deposit on a draw", async function () {
+      await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 1, coinToken: tokenAddress }));
+      await contract.connect(signers.bob).joinGame(1);
+      await contract.connect(signers.alice).startGame(1);
+      await submit(signers.alice, 40);
+      await submit(signers.bob, 40);
+      await settle();
+
+      await contract.connect(signers.alice).claimCoins(1);
+      await contract.connect(signers.bob).claimCoins(1);
+      expect(await tokenBalance(signers.alice)).to.equal(150n);
+      expect(await tokenBalance(signers.bob)).to.equal(150n);
+    });
+
+    it("refunds leavers at once and cancelled seats on claim", async function () {
+      await contract.connect(signers.alice).createGame(gameRules({ seatCount: 3, coinToken: tokenAddress }));
+      await contract.connect(signers.bob).joinGame(1);
+      await contract.connect(signers.carol).joinGame(1);
+      await expect(contract.connect(signers.alice).claimCoins(1)).to.be.revertedWith("Game not finished");
+
+      await contract.connect(signers.bob).leaveGame(1);
+      expect(await tokenBalance(signers.bob)).to.equal(150n);
+
+      await contract.connect(signers.alice).leaveGame(1);
+      await contract.connect(signers.carol).claimCoins(1);
+      expect(await tokenBalance(signers.carol)).to.equal(150n);
+    });
+
+    it("seats an underfunded player with zero coins", async function () {
+      const [dave] = signers.others;
+      await token.connect(dave).setOperator(contractAddress, (await time.latest()) + 3600);
+      await contract.connect(signers.alice).createGame(gameRules({ coinToken: tokenAddress }));
+      await contract.connect(dave).joinGame(1);
+
+      const state = await contract.getPlayerState(1, dave.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, state.coins, contractAddress, dave)).to.equal(0n);
+      await expect(contract.connect(signers.carol).claimCoins(2)).to.be.revertedWith("Game not found");
+    });
+
+    it("keeps a hostile coin token from re-entering the house", async function () {
+      const factory = (await ethers.getContractFactory("ReentrantCoinToken")) as ReentrantCoinToken__factory;
+      const hostile = await factory.deploy(contractAddress);
+      const hostileAddress = await hostile.getAddress();
+      const stake = ethers.parseEther("1");
+      const rules = gameRules({ seatCount: 3, coinToken: hostileAddress, stakeAmount: stake });
+      await contract.connect(signers.alice).createGame(rules, { value: stake });
+
+      await hostile.arm(1, 1);
+      await expect(hostile.join(1, { value: stake })).to.be.revertedWith("Reentrant call");
+
+      await hostile.arm(0, 0);
+      await hostile.join(1, { value: stake });
+      await hostile.arm(2, 1);
+      await expect(hostile.leave(1)).to.be.revertedWith("Reentrant call");
+      expect(await contract.pendingWithdrawals(ethers.ZeroAddress, hostileAddress)).to.equal(0n);
+
+      await hostile.arm(0, 0);
+      await hostile.leave(1);
+      expect(await contract.pendingWithdrawals(ethers.ZeroAddress, hostileAddress)).to.equal(stake);
+      expect((await contract.getGameSummary(1)).players).to.deep.equal([
+        signers.alice.address,
+        ethers.ZeroAddress,
+        ethers.ZeroAddress,
+      ]);
+    });
+
+    it("requires the house to be an operator of the token", async function () {
+      const [dave] = signers.others;
+      await contract.connect(signers.alice).createGame(gameRules({ coinToken: tokenAddress }));
+      await expect(contract.connect(dave).joinGame(1)).to.be.revertedWith("Not an operator");
+      await expect(
+        contract.createGame(gameRules({ coinToken: tokenAddress, startingCoins: 2 ** 31, seatCount: 2 })),
+      ).to.be.revertedWith("Invalid starting coins");
+    });
+  });
+
+  it("quick-matches callers into the oldest waiting game with the same rules", async function () {
+    await contract.connect(signers.alice).quickMatch(gameRules(), false);
+    await contract.connect(signers.carol).quickMatch(gameRules({ maxRounds: 3 }), false);
+    await expect(contract.connect(signers.alice).quickMatch(gameRules(), false)).to.be.revertedWith("Already in game");
+
+    await contract.connect(signers.bob).quickMatch(gameRules(), false);
+    let summary = await contract.getGameSummary(1);
+    expect(summary.players).to.deep.equal([signers.alice.address, signers.bob.address]);
+    expect(summary.started).to.equal(false);
+    expect((await contract.getGameSummary(2)).players[1]).to.equal(ethers.ZeroAddress);
+
+    // The full game and a cancelled one are skipped, so the next caller opens a fresh game.
+    await contract.connect(signers.alice).quickMatch(gameRules(), false);
+    await contract.connect(signers.alice).leaveGame(3);
+    await contract.connect(signers.carol).quickMatch(gameRules(), false);
+    summary = await contract.getGameSummary(4);
+    expect(summary.players[0]).to.equal(signers.carol.address);
+    expect((await contract.getGames(0, 10, LISTING_OPEN)).total).to.equal(3);
+
+    // A full game stays queued, so it is offered again once a seat frees up.
+    await contract.connect(signers.bob).leaveGame(1);
+    await contract.connect(signers.others[0]).quickMatch(gameRules(), false);
+    expect((await contract.getGameSummary(1)).players).to.deep.equal([
+      signers.alice.address,
+      signers.others[0].address,
+    ]);
+  });
+
+  it("auto-starts quick matches and pairs concurrent callers mined in one block", async function () {
+    const [dave, erin] = signers.others;
+    const players = [signers.alice, signers.bob, signers.carol, dave, erin];
+
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      for (const player of players) {
+        await contract.connect(player).quickMatch(gameRules(), true, { gasLimit: 5_000_000 });
+      }
+      await ethers.provider.send("evm_mine", []);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+
+    const first = await contract.getGameSummary(1);
+    const second = await contract.getGameSummary(2);
+    const third = await contract.getGameSummary(3);
+    expect(first.players).to.deep.equal([signers.alice.address, signers.bob.address]);
+    expect(second.players).to.deep.equal([signers.carol.address, dave.address]);
+    expect(third.players).to.deep.equal([erin.address, ethers.ZeroAddress]);
+    expect([first.started, second.started, third.started]).to.deep.equal([true, true, false]);
+    expect(await contract.nextGameId()).to.equal(4);
+
+    await submit(signers.alice, 10);
+    expect((await contract.getRoundStatus(1)).submitted).to.deep.equal([true, false]);
+  });
+
+  it("keeps private games out of the listings and seats only invitees", async function () {
+    const [dave] = signers.others;
+    await contract.connect(signers.alice).createPrivateGame(gameRules({ seatCount: 3 }), [signers.bob.address]);
+    await contract.connect(signers.carol).createGame(gameRules());
+
+    expect((await contract.getGames(0, 10, LISTING_ALL)).total).to.equal(1);
+    expect((await contract.getGames(0, 10, LISTING_OPEN)).summaries[0].gameId).to.equal(2);
+    expect((await contract.getGameSummary(1)).isPrivate).to.equal(true);
+    expect((await contract.getGamesByPlayer(signers.alice.address, 0, 10)).total).to.equal(1);
+
+    await expect(contract.connect(signers.carol).joinGame(1)).to.be.revertedWith("Not invited");
+    await expect(contract.connect(signers.bob).invitePlayers(1, [signers.carol.address])).to.be.revertedWith(
+      "Not game creator",
+    );
+    await expect(contract.connect(signers.alice).invitePlayers(1, [signers.carol.address]))
+      .to.emit(contract, "PlayerInvited")
+      .withArgs(1, signers.carol.address);
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.carol).joinGame(1);
+    await expect(contract.connect(dave).joinGame(1)).to.be.revertedWith("Game full");
+
+    await contract.connect(signers.alice).startGame(1);
+    expect((await contract.getGameCounts()).active).to.equal(0);
+  });
+
+  it("admits players presenting an invite the creator signed", async function () {
+    const [dave] = signers.others;
+    await contract.connect(signers.alice).createPrivateGame(gameRules({ seatCount: 3 }), []);
+    const domain = {
+      name: "HonestHouse",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: contractAddress,
+    };
+    const types = {
+      Invite: [
+        { name: "gameId", type: "uint256" },
+        { name: "player", type: "address" },
+      ],
+    };
+
+    const forBob = await signers.alice.signTypedData(domain, types, { gameId: 1, player: signers.bob.address });
+    const forAnyone = await signers.alice.signTypedData(domain, types, { gameId: 1, player: ethers.ZeroAddress });
+    const forged = await signers.carol.signTypedData(domain, types, { gameId: 1, player: ethers.ZeroAddress });
+
+    await expect(contract.connect(signers.carol).joinWithInvite(1, forBob)).to.be.revertedWith("Invalid invite");
+    await expect(contract.connect(signers.carol).joinWithInvite(1, forged)).to.be.revertedWith("Invalid invite");
+    await contract.connect(signers.bob).joinWithInvite(1, forBob);
+    await contract.connect(dave).joinWithInvite(1, forAnyone);
+    expect((await contract.getGameSummary(1)).players).to.deep.equal([
+      signers.alice.address,
+      signers.bob.address,
+      dave.address,
+    ]);
+  });
+
+  it("links rematches of a settled game and keeps the series score", async function () {
+    await contract.connect(signers.alice).createGame(gameRules({ maxRounds: 1 }));
+    await contract.connect(signers.bob).joinGame(1);
+    await contract.connect(signers.alice).startGame(1);
+    await submit(signers.alice, 30);
+    await submit(signers.bob, 10);
+    await expect(contract.connect(signers.bob).rematch(1)).to.be.revertedWith("Game not settled");
+    await settle();
+    await expect(contract.connect(signers.carol).rematch(1)).to.be.revertedWith("Not in game");
+
+    await expect(contract.connect(signers.bob).rematch(1))
+      .to.emit(contract, "RematchProposed")
+      .withArgs(1, 2, signers.bob.address);
+    await expect(contract.connect(signers.alice).rematch(1)).to.be.revertedWith("Rematch already proposed");
+    await expect(contract.connect(signers.carol).joinGame(2)).to.be.revertedWith("Not invited");
+    await contract.connect(signers.alice).joinGame(2);
+    const summary = await contract.getGameSummary(2);
+    expect(summary.players).to.deep.equal([signers.bob.address, signers.alice.address]);
+    expect(summary.started).to.equal(true);
+    expect(summary.rules.maxRounds).to.equal(1);
+
+    await submit(signers.bob, 50, 2);
+    await submit(signers.alice, 5, 2);
+    await settle(2);
+    const series = await contract.getSeries(2);
+    expect(series.seriesId).to.equal(1);
+    expect(series.score.players).to.deep.equal([signers.alice.address, signers.bob.address]);
+    expect(series.score.wins).to.deep.equal([1n, 1n]);
+    expect((await contract.getSeries(1)).rematchId).to.equal(2);
+
+    // A proposal the opponent never confirmed can be cancelled and proposed again.
+    await contract.connect(signers.alice).rematch(2);
+    await contract.connect(signers.alice).leaveGame(3);
+    await contract.connect(signers.bob).rematch(2);
+    expect((await contract.getSeries(2)).rematchId).to.equal(4);
+    expect((await contract.getSeries(4)).seriesId).to.equal(1);
+  });
+
+  describe("through HonestHouseClient", function () {
+    const clientRules = gameRules({ maxRounds: 1, stakeAmount: ethers.parseEther("1") });
+
+    function client(runner: HardhatEthersSigner | typeof ethers.provider) {
+      return new HonestHouseClient({ address: contractAddress, abi: HonestHouse__factory.abi, runner, fhevm });
+    }
+
+    it("plays a staked game with typed results and mock encryption", async function () {
+      const alice = client(signers.alice);
+      const bob = client(signers.bob);
+
+      const gameId = await alice.createGame(clientRules);
+      expect(gameId).to.equal(1);
+      await bob.joinGame(gameId);
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(ethers.parseEther("2"));
+      await bob.startGame(gameId);
+
+      await alice.submitCoins(gameId, 30);
+      expect((await alice.getRoundStatus(gameId)).submitted).to.deep.equal([true, false]);
+      await bob.submitCoins(gameId, 20);
+
+      const summary = await bob.getGameSummary(gameId);
+      expect(summary.finished).to.equal(true);
+      expect(summary.rules.stakeAmount).to.equal(ethers.parseEther("1"));
+      expect(await alice.decryptBalance(gameId)).to.deep.equal({ coins: 70n, score: 10n });
+      expect(await bob.decryptBalance(gameId)).to.deep.equal({ coins: 80n, score: 0n });
+
+      const mine = await bob.getGamesByPlayer(signers.bob.address, 0, 10);
+      expect(mine.total).to.equal(1);
+      expect(mine.games[0].awaitingSubmission).to.equal(false);
+
+      await bob.settleGame(gameId);
+      expect((await bob.getGameSummary(gameId)).winner).to.equal(signers.alice.address);
+      expect(await alice.getPendingWithdrawal(ethers.ZeroAddress, signers.alice.address)).to.equal(
+        ethers.parseEther("2"),
+      );
+      await alice.withdraw();
+      expect(await alice.getPendingWithdrawal(ethers.ZeroAddress, signers.alice.address)).to.equal(0n);
+    });
+
+    it("confirms coin exhaustion and reveals the rounds of a finished game", async function () {
+      const alice = client(signers.alice);
+      const bob = client(signers.bob);
+      await alice.createGame(gameRules({ endRule: COINS_EXHAUSTED, maxRounds: 0, revealAfterGame: true }));
+      await bob.joinGame(1);
+      await bob.startGame(1);
+
+      await alice.submitCoins(1, 100);
+      await bob.submitCoins(1, 60);
+      expect(await bob.confirmCoinsExhausted(1)).to.equal(false);
+      await alice.submitCoins(1, 0);
+      await bob.submitCoins(1, 40);
+      expect(await bob.confirmCoinsExhausted(1)).to.equal(true);
+      expect((await bob.getGameSummary(1)).finished).to.equal(true);
+
+      expect(await bob.revealRounds(1)).to.deep.include({ fromRound: 1, toRound: 2 });
+      expect((await bob.getRoundHistory(1, 1, 2)).map((record) => record.revealedContributions)).to.deep.equal([
+        [100, 60],
+        [0, 40],
+      ]);
+      expect(await bob.revealRounds(1)).to.equal(undefined);
+    });
+
+    it("quick-matches with the stake sent along", async function () {
+      expect(await client(signers.alice).quickMatch(clientRules, true)).to.deep.equal({ gameId: 1, created: true });
+      expect(await client(signers.bob).quickMatch(clientRules, true)).to.deep.equal({ gameId: 1, created: false });
+      expect((await client(signers.bob).getGameSummary(1)).started).to.equal(true);
+      expect(await client(signers.bob).getGameCounts()).to.deep.equal({ open: 0, active: 1, finished: 0 });
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(ethers.parseEther("2"));
+    });
+
+    it("creates a private game and joins it with a signed invite", async function () {
+      const alice = client(signers.alice);
+      const gameId = await alice.createGame(clientRules, { private: true });
+      const invite = await alice.signInvite(gameId);
+
+      await client(signers.bob).joinGame(gameId, invite);
+      const summary = await alice.getGameSummary(gameId);
+      expect(summary.isPrivate).to.equal(true);
+      expect(summary.players[1]).to.equal(signers.bob.address);
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(ethers.parseEther("2"));
+      expect((await alice.getGames(0, 10, LISTING_OPEN)).total).to.equal(0);
+    });
+
+    it("proposes a rematch with the stake sent along and reads the series", async function () {
+      const alice = client(signers.alice);
+      const bob = client(signers.bob);
+      await alice.createGame(clientRules);
+      await bob.joinGame(1);
+      await bob.startGame(1);
+      await alice.submitCoins(1, 30);
+      await bob.submitCoins(1, 20);
+      await settle();
+
+      const rematchId = await bob.rematch(1);
+      await alice.joinGame(rematchId);
+      expect((await alice.getGameSummary(rematchId)).started).to.equal(true);
+      expect(await alice.getSeries(rematchId)).to.deep.equal({
+        seriesId: 1,
+        players: [signers.alice.address, signers.bob.address],
+        wins: [1, 0],
+        draws: 0,
+        rematchId: 0,
+      });
+      expect(await ethers.provider.getBalance(contractAddress)).to.equal(ethers.parseEther("4"));
+    });
+
+    it("registers a spectator and decrypts the scores they may see", async function () {
+      const alice = client(signers.alice);
+      const carol = client(signers.carol);
+      await alice.createGame({ ...clientRules, maxRounds: 2, spectatorDelay: SPECTATE_AFTER_GAME });
+      await client(signers.bob).joinGame(1);
+      await alice.startGame(1);
+      await carol.registerSpectator(1);
+
+      await alice.submitCoins(1, 40);
+      await client(signers.bob).submitCoins(1, 20);
+      expect(await carol.spectateScores(1)).to.deep.equal({ round: 0, scores: [] });
+
+      await alice.submitCoins(1, 10);
+      await client(signers.bob).submitCoins(1, 30);
+      expect(await carol.scoresUnlocked(1, 2, signers.carol.address)).to.equal(false);
+      expect(await carol.spectateScores(1)).to.deep.equal({ round: 2, scores: [10n, 10n] });
+
+      // Scores already unlocked are decrypted again without another transaction.
+      const block = await ethers.provider.getBlockNumber();
+      expect(await carol.spectateScores(1)).to.deep.equal({ round: 2, scores: [10n, 10n] });
+      expect(await ethers.provider.getBlockNumber()).to.equal(block);
+    });
+
+    it("reports reverts and missing signers as HonestHouseError", async function () {
+      const alice = client(signers.alice);
+      const reader = client(ethers.provider);
+      await alice.createGame({ ...clientRules, stakeAmount: 0n });
+
+      let error: unknown;
+      try {
+        await alice.joinGame(1);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).to.be.instanceOf(HonestHouseError);
+      expect((error as HonestHouseError).code).to.equal("REVERTED");
+      expect((error as HonestHouseError).reason).to.equal("Already in game");
+
+      try {
+        await reader.submitCoins(1, 5);
+      } catch (caught) {
+        error = caught;
+      }
+      expect((error as HonestHouseError).code).to.equal("NO_SIGNER");
+      expect((await reader.getGames(0, 10, LISTING_OPEN)).total).to.equal(1);
+    });
+
+    it("reuses one decryption session signature across clients and rounds", async function () {
+      let keypairs = 0;
+      const counting: FhevmInstance = {
+        createEncryptedInput: (address, user) => fhevm.createEncryptedInput(address, user),
+        generateKeypair: () => {
+          keypairs++;
+          return fhevm.generateKeypair();
+        },
+        createEIP712: (...args) => fhevm.createEIP712(...args),
+        userDecrypt: (...args) => fhevm.userDecrypt(...args),
+        publicDecrypt: (handles) => fhevm.publicDecrypt(handles),
+      };
+      const session = new DecryptionSession({ fhevm: counting, contractAddress });
+      const alice = new HonestHouseClient({
+        address: contractAddress,
+        abi: HonestHouse__factory.abi,
+        runner: signers.alice,
+        fhevm: counting,
+        session,
+      });
+      const bob = client(signers.bob);
+
+      await alice.createGame({ ...clientRules, maxRounds: 3, stakeAmount: 0n });
+      await bob.joinGame(1);
+      await bob.startGame(1);
+      expect(session.isActive(signers.alice.address)).to.equal(false);
+      expect(await alice.decryptBalance(1)).to.deep.equal({ coins: 100n, score: 0n });
+      expect(session.isActive(signers.alice.address)).to.equal(true);
+
+      await alice.submitCoins(1, 30);
+      await bob.submitCoins(1, 20);
+      const state = await alice.getPlayerState(1, signers.alice.address);
+      const clear = await alice.userDecrypt([state.coins, state.score, state.lastCanSpend]);
+      expect(clear).to.deep.equal({ [state.coins]: 70n, [state.score]: 10n, [state.lastCanSpend]: true });
+
+      const again = new HonestHouseClient({
+        address: contractAddress,
+        abi: HonestHouse__factory.abi,
+        runner: signers.alice,
+        fhevm: counting,
+        session,
+      });
+      expect(await again.decryptBalance(1)).to.deep.equal({ coins: 70n, score: 10n });
+      expect(keypairs).to.equal(1);
+
+      session.clear();
+      expect(session.isActive(signers.alice.address)).to.equal(false);
+      await again.decryptBalance(1);
+      expect(keypairs).to.equal(2);
+    });
+  });
 });
@@ -0,0 +1,178 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { ethers, fhevm } from "hardhat";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { HonestHouse, HonestHouse__factory } from "../types";
+import { createHouseApi } from "../indexer/HouseApi";
+import type { GameListItem, Page, RoundView } from "../indexer/HouseApi";
+import { HouseIndexer, JsonSnapshotStore } from "../indexer/HouseIndexer";
+import type { IndexedGame } from "../indexer/HouseIndexer";
+import { deployHouse, gameRules } from "./fixtures";
+
+describe("HouseApi", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let contract: HonestHouse;
+  let contractAddress: string;
+  let directory: string;
+  let indexer: HouseIndexer;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async function () {
+    [alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+
+    contract = await deployHouse();
+    contractAddress = await contract.getAddress();
+    directory = mkdtempSync(join(tmpdir(), "house-api-"));
+    indexer = new HouseIndexer({
+      address: contractAddress,
+      abi: HonestHouse__factory.abi,
+      provider: ethers.provider,
+      store: new JsonSnapshotStore(join(directory, "snapshot.json")),
+      chainId: 31337,
+      fromBlock: (await contract.deploymentTransaction()!.wait())!.blockNumber,
+    });
+    server = createHouseApi(indexer);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  async function createGame(creator: HardhatEthersSigner) {
+    await contract.connect(creator).createGame(gameRules({ maxRounds: 3 }));
+  }
+
+  async function submit(gameId: number, player: HardhatEthersSigner, amount: number) {
+    const input = await fhevm.createEncryptedInput(contractAddress, player.address).add32(amount).encrypt();
+    await contract.connect(player).submitCoins(gameId, input.handles[0], input.inputProof);
+  }
+
+  async function get<T = Page<GameListItem>>(path: string): Promise<{ status: number; body: T }> {
+    const response = await fetch(baseUrl + path);
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  it("serves paged games, a game's rounds and a player's games", async function () {
+    await createGame(alice);
+    await contract.connect(bob).joinGame(1);
+    await contract.connect(alice).startGame(1);
+    await submit(1, alice, 6);
+    await submit(1, bob, 2);
+    await submit(1, bob, 4);
+    await createGame(bob);
+    await createGame(carol);
+    await indexer.sync();
+
+    const firstPage = await get("/games?limit=2");
+    expect(firstPage.status).to.equal(200);
+    expect(firstPage.body.total).to.equal(3);
+    expect(firstPage.body.items.map((game) => game.gameId)).to.deep.equal([1, 2]);
+    expect(firstPage.body.items[0]).to.include({ status: "active", rounds: 1 });
+
+    const open = await get("/games?status=open&offset=1");
+    expect(open.body.total).to.equal(2);
+    expect(open.body.items.map((game) => game.gameId)).to.deep.equal([3]);
+
+    const game = await get<IndexedGame>("/games/1");
+    expect(game.body.players).to.deep.equal([alice.address, bob.address]);
+    expect(game.body.submissions).to.have.length(3);
+
+    const rounds = await get<Page<RoundView>>("/games/1/rounds");
+    expect(rounds.body.total).to.equal(1);
+    expect(rounds.body.items[0].round).to.equal(1);
+    expect(rounds.body.items[0].submissions.map((submission) => submission.player)).to.deep.equal([
+      alice.address,
+      bob.address,
+    ]);
+
+    const bobGames = await get(`/players/${bob.address.toLowerCase()}/games`);
+    expect(bobGames.body.items.map((item) => item.gameId)).to.deep.equal([1, 2]);
+  });
+
+  it("hides private games from every route", async function () {
+    await createGame(alice);
+    await contract.connect(alice).createPrivateGame(gameRules(), [bob.address]);
+    await contract.connect(bob).joinGame(2);
+    await indexer.sync();
+
+    expect((await get("/games")).body.items.map((game) => game.gameId)).to.deep.equal([1]);
+    expect((await get("/games/2")).status).to.equal(404);
+    expect((await get("/games/2/rounds")).status).to.equal(404);
+    const aliceGames = await get(`/players/${alice.address}/games`);
+    expect(aliceGames.body.items.map((game) => game.gameId)).to.deep.equal([1]);
+    expect((await get(`/players/${bob.address}/games`)).body.total).to.equal(0);
+  });
+
+  it("rejects unknown games and bad parameters", async function () {
+    await indexer.sync();
+
+    expect((await get("/games/7")).status).to.equal(404);
+    expect((await get("/games?limit=500")).status).to.equal(400);
+    expect((await get("/games?status=lost")).status).to.equal(400);
+    expect((await get("/players/bob/games")).status).to.equal(400);
+    expect((await get("/seats")).status).to.equal(404);
+  });
+
+  it("streams newly indexed events to subscribers", async function () {
+    const response = await fetch(`${baseUrl}/events?game=1`);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = decoder.decode((await reader.read()).value);
+    expect(received).to.match(/^: indexed up to block/);
+
+    await createGame(alice);
+    await contract.connect(bob).joinGame(1);
+    await createGame(carol);
+    await indexer.sync();
+
+    while (!received.includes("event: PlayerJoined")) {
+      received += decoder.decode((await reader.read()).value);
+    }
+    expect(received).to.include("event: GameCreated");
+    expect(received).to.include(`"gameId":1`);
+    expect(received).not.to.include(`"gameId":2`);
+    await reader.cancel();
+  });
+
+  it("streams no events of private games", async function () {
+    const response = await fetch(`${baseUrl}/events`);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = decoder.decode((await reader.read()).value);
+
+    await contract.connect(alice).createPrivateGame(gameRules(), [bob.address]);
+    await contract.connect(bob).joinGame(1);
+    await createGame(carol);
+    await indexer.sync();
+
+    while (!received.includes("event: GameCreated")) {
+      received += decoder.decode((await reader.read()).value);
+    }
+    expect(received).to.include(`"gameId":2`);
+    expect(received).not.to.include(`"gameId":1`);
+    expect(received).not.to.include("event: PlayerJoined");
+    await reader.cancel();
+  });
+});
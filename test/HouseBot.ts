@@ -0,0 +1,106 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HonestHouse, HonestHouse__factory } from "../types";
+import { HouseBot } from "../bot/HouseBot";
+import { adaptive, fixedFraction, loadStrategy, randomBid } from "../bot/strategies";
+import type { BidContext, BidStrategy } from "../bot/strategies";
+import { END_RULE_COINS, HonestHouseClient } from "../client/HonestHouseClient";
+import { deployHouse, gameRules } from "./fixtures";
+
+const RULES = gameRules({ maxRounds: 3 });
+
+function context(overrides: Partial<BidContext> = {}): BidContext {
+  return { gameId: 1, round: 1, rules: RULES, coins: 100, score: 0, roundsLeft: 3, history: [], ...overrides };
+}
+
+describe("HouseBot", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: HonestHouse;
+  let contractAddress: string;
+
+  before(async function () {
+    [alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+
+    contract = await deployHouse();
+    contractAddress = await contract.getAddress();
+  });
+
+  function client(runner: HardhatEthersSigner) {
+    return new HonestHouseClient({ address: contractAddress, abi: HonestHouse__factory.abi, runner, fhevm });
+  }
+
+  it("bids with the built-in strategies", async function () {
+    expect(fixedFraction(0.25).bid(context({ coins: 80 }))).to.equal(20);
+    expect(randomBid(() => 0.5).bid(context({ coins: 10 }))).to.equal(5);
+    expect(adaptive().bid(context({ coins: 90 }))).to.equal(30);
+    expect(adaptive().bid(context({ coins: 90, history: [{ round: 1, contribution: 30, won: false }] }))).to.equal(37);
+    expect(adaptive().bid(context({ coins: 90, history: [{ round: 1, contribution: 30, won: true }] }))).to.equal(22);
+    expect((await loadStrategy("fixed:0.5")).name).to.equal("fixed:0.5");
+    await expect(loadStrategy("greedy")).to.be.rejectedWith(/Unknown strategy greedy/);
+  });
+
+  it("joins, starts and plays a game to the end against another bot", async function () {
+    const creator = client(alice);
+    await creator.createGame(RULES);
+
+    const bids: string[] = [];
+    const recording = (strategy: BidStrategy): BidStrategy => ({
+      name: strategy.name,
+      bid: (bidContext) => {
+        const bid = strategy.bid(bidContext);
+        bids.push(`${strategy.name}:${bidContext.round}:${bid}`);
+        return bid;
+      },
+    });
+    const aliceBot = new HouseBot({ client: creator, strategy: recording(fixedFraction(0.5)) });
+    const bobBot = new HouseBot({ client: client(bob), strategy: recording(adaptive()), maxGames: 1 });
+
+    expect(await aliceBot.step()).to.equal(0);
+    expect(await bobBot.step()).to.equal(1);
+    expect(await bobBot.step()).to.equal(0);
+    for (let pass = 0; pass < 4; pass++) {
+      await aliceBot.step();
+      await bobBot.step();
+    }
+
+    const summary = await creator.getGameSummary(1);
+    expect(summary.finished).to.equal(true);
+    // The adaptive bot loses round 1 and raises its share, then wins round 2 and eases off again.
+    expect(bids).to.deep.equal([
+      "adaptive:1:33",
+      "fixed:0.5:1:50",
+      "adaptive:2:41",
+      "fixed:0.5:2:25",
+      "adaptive:3:24",
+      "fixed:0.5:3:12",
+    ]);
+    expect(await creator.decryptBalance(1)).to.deep.equal({ coins: 13n, score: 10n });
+  });
+
+  it("finishes a coins exhausted game once every seat spent its coins", async function () {
+    const creator = client(alice);
+    await creator.createGame(gameRules({ endRule: END_RULE_COINS, maxRounds: 0 }));
+    const aliceBot = new HouseBot({ client: creator, strategy: fixedFraction(1) });
+    const bobBot = new HouseBot({ client: client(bob), strategy: fixedFraction(1), maxGames: 1 });
+
+    await bobBot.step();
+    await aliceBot.step();
+    expect(await aliceBot.step()).to.equal(1);
+    expect(await bobBot.step()).to.equal(1);
+    expect((await creator.getGameSummary(1)).round).to.equal(2);
+
+    expect(await aliceBot.step()).to.equal(1);
+    const summary = await creator.getGameSummary(1);
+    expect(summary.finished).to.equal(true);
+    expect(summary.round).to.equal(1);
+  });
+});
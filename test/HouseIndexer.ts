@@ -0,0 +1,229 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { ethers, fhevm } from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+import { HonestHouse, HonestHouse__factory } from "../types";
+import { HouseIndexer, JsonSnapshotStore, summarize } from "../indexer/HouseIndexer";
+import { deployHouse, gameRules } from "./fixtures";
+
+describe("HouseIndexer", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let contract: HonestHouse;
+  let contractAddress: string;
+  let deployBlock: number;
+  let directory: string;
+  let store: JsonSnapshotStore;
+
+  before(async function () {
+    [alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+
+    contract = await deployHouse();
+    contractAddress = await contract.getAddress();
+    deployBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+    directory = mkdtempSync(join(tmpdir(), "house-indexer-"));
+    store = new JsonSnapshotStore(join(directory, "snapshot.json"));
+  });
+
+  afterEach(function () {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  function indexer() {
+    return new HouseIndexer({
+      address: contractAddress,
+      abi: HonestHouse__factory.abi,
+      provider: ethers.provider,
+      store,
+      chainId: 31337,
+      fromBlock: deployBlock,
+      batchSize: 3,
+    });
+  }
+
+  async function createGame(creator: HardhatEthersSigner) {
+    await contract.connect(creator).createGame(gameRules({ maxRounds: 2 }));
+  }
+
+  async function submit(gameId: number, player: HardhatEthersSigner, amount: number) {
+    const input = await fhevm.createEncryptedInput(contractAddress, player.address).add32(amount).encrypt();
+    await contract.connect(player).submitCoins(gameId, input.handles[0], input.inputProof);
+  }
+
+  it("stores games, seats, submissions and resolved rounds", async function () {
+    await createGame(alice);
+    await contract.connect(bob).joinGame(1);
+    await contract.connect(alice).startGame(1);
+    await submit(1, alice, 7);
+    await submit(1, bob, 3);
+    await submit(1, bob, 5);
+    await submit(1, alice, 1);
+
+    await createGame(bob);
+    await contract.connect(carol).joinGame(2);
+    await contract.connect(carol).leaveGame(2);
+    await contract.connect(bob).leaveGame(2);
+
+    await createGame(carol);
+
+    const house = indexer();
+    expect(await house.sync()).to.equal(15);
+
+    const snapshot = store.load()!;
+    expect(snapshot.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+
+    const finished = snapshot.games[1];
+    expect(finished.status).to.equal("finished");
+    expect(finished.players).to.deep.equal([alice.address, bob.address]);
+    expect(finished.rounds.map((round) => round.round)).to.deep.equal([1, 2]);
+    expect(finished.submissions.map((submission) => [submission.round, submission.player])).to.deep.equal([
+      [1, alice.address],
+      [1, bob.address],
+      [2, bob.address],
+      [2, alice.address],
+    ]);
+    expect(finished.finishedAt).to.be.at.least(finished.startedAt!);
+
+    expect(snapshot.games[2].status).to.equal("cancelled");
+    expect(snapshot.games[2].players).to.deep.equal([bob.address]);
+    expect(snapshot.games[3].status).to.equal("open");
+
+    const stats = summarize(snapshot, finished.finishedAt!);
+    expect(stats).to.include({ games: 3, open: 1, finished: 1, cancelled: 1, finishedSince: 1, averageRounds: 2 });
+  });
+
+  it("resumes from its checkpoint without replaying events", async function () {
+    await createGame(alice);
+    await contract.connect(bob).joinGame(1);
+    expect(await indexer().sync()).to.equal(2);
+
+    await contract.connect(alice).startGame(1);
+    await submit(1, alice, 4);
+
+    const resumed = indexer();
+    expect(await resumed.sync()).to.equal(2);
+    expect(await resumed.sync()).to.equal(0);
+
+    const game = store.load()!.games[1];
+    expect(game.status).to.equal("active");
+    expect(game.players).to.deep.equal([alice.address, bob.address]);
+    expect(game.submissions).to.have.length(1);
+  });
+
+  it("skips events of games created before its first block", async function () {
+    await createGame(alice);
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await contract.connect(bob).joinGame(1);
+    await createGame(carol);
+
+    const late = new HouseIndexer({
+      address: contractAddress,
+      abi: HonestHouse__factory.abi,
+      provider: ethers.provider,
+      store,
+      chainId: 31337,
+      fromBlock,
+    });
+    await late.sync();
+    expect(Object.keys(late.snapshot.games)).to.deep.equal(["2"]);
+  });
+
+  it("applies nothing of a batch that fails partway", async function () {
+    await createGame(alice);
+    await contract.connect(bob).joinGame(1);
+    await contract.connect(alice).startGame(1);
+    const startBlock = await ethers.provider.getBlockNumber();
+
+    const batched = new HouseIndexer({
+      address: contractAddress,
+      abi: HonestHouse__factory.abi,
+      provider: ethers.provider,
+      store,
+      chainId: 31337,
+      fromBlock: deployBlock,
+    });
+    const getBlock = ethers.provider.getBlock.bind(ethers.provider);
+    ethers.provider.getBlock = async (block) => {
+      if (block === startBlock) {
+        throw new Error("node unavailable");
+      }
+      return getBlock(block);
+    };
+    try {
+      await expect(batched.sync()).to.be.rejectedWith("node unavailable");
+    } finally {
+      ethers.provider.getBlock = getBlock;
+    }
+    expect(batched.snapshot.games).to.deep.equal({});
+    expect(batched.snapshot.lastBlock).to.equal(deployBlock - 1);
+
+    await batched.sync();
+    expect(batched.snapshot.games[1].players).to.deep.equal([alice.address, bob.address]);
+    expect(batched.snapshot.games[1].status).to.equal("active");
+  });
+
+  it("logs a failed sync while following and retries it", async function () {
+    await createGame(alice);
+    const messages: string[] = [];
+    const following = new HouseIndexer({
+      address: contractAddress,
+      abi: HonestHouse__factory.abi,
+      provider: ethers.provider,
+      store,
+      chainId: 31337,
+      fromBlock: deployBlock,
+      log: (message) => messages.push(message),
+    });
+    const sync = following.sync.bind(following);
+    let attempts = 0;
+    following.sync = async () => {
+      attempts++;
+      if (attempts === 1) {
+        throw new Error("node unavailable");
+      }
+      return sync();
+    };
+
+    const controller = new AbortController();
+    await following.follow(1, controller.signal, () => controller.abort());
+    expect(attempts).to.equal(2);
+    expect(messages).to.have.length(1);
+    expect(messages[0]).to.contain("node unavailable");
+    expect(following.snapshot.games[1].status).to.equal("open");
+  });
+
+  it("stops following as soon as the signal aborts", async function () {
+    const controller = new AbortController();
+    const started = Date.now();
+    // The abort lands while the follower waits out its minute-long interval.
+    await indexer().follow(60_000, controller.signal, () => setTimeout(() => controller.abort(), 10));
+    expect(Date.now() - started).to.be.below(5_000);
+  });
+
+  it("refuses a snapshot of another contract", async function () {
+    await indexer().sync();
+    expect(
+      () =>
+        new HouseIndexer({
+          address: alice.address,
+          abi: HonestHouse__factory.abi,
+          provider: ethers.provider,
+          store,
+          chainId: 31337,
+          fromBlock: 0,
+        }),
+    ).to.throw(/indexes/);
+  });
+});
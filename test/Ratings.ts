@@ -0,0 +1,98 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HonestHouse, HonestHouse__factory, Ratings, Ratings__factory } from "../types";
+import { HonestHouseClient, RatingsClient } from "../client/HonestHouseClient";
+import { deployHouse, gameRules } from "./fixtures";
+
+const RULES = gameRules({ maxRounds: 1 });
+
+describe("Ratings", function () {
+  let accounts: HardhatEthersSigner[];
+  let house: HonestHouse;
+  let ratings: Ratings;
+  let reader: RatingsClient;
+
+  before(async function () {
+    accounts = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    house = await deployHouse();
+    ratings = await ((await ethers.getContractFactory("Ratings")) as Ratings__factory).deploy(await house.getAddress());
+    reader = new RatingsClient({ address: await ratings.getAddress(), abi: Ratings__factory.abi, runner: accounts[0] });
+  });
+
+  function client(player: HardhatEthersSigner) {
+    return new HonestHouseClient({
+      address: house.target as string,
+      abi: HonestHouse__factory.abi,
+      runner: player,
+      fhevm,
+    });
+  }
+
+  // Plays a one-round game where each player bids the given amount, and settles it unless asked not to.
+  async function play(players: HardhatEthersSigner[], bids: number[], settle = true): Promise<number> {
+    const gameId = await client(players[0]).createGame({ ...RULES, seatCount: players.length });
+    for (const player of players.slice(1)) {
+      await client(player).joinGame(gameId);
+    }
+    await client(players[0]).startGame(gameId);
+    for (let i = 0; i < players.length; i++) {
+      await client(players[i]).submitCoins(gameId, bids[i]);
+    }
+    if (settle) {
+      const decrypted = await fhevm.publicDecrypt([(await house.getGameResult(gameId)).encryptedOutcome]);
+      await house.settleGame(gameId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+    }
+    return gameId;
+  }
+
+  it("records each settled game once and moves Elo ratings toward the result", async function () {
+    const [alice, bob] = accounts;
+    expect(await reader.getPlayerStats(alice.address)).to.deep.equal({ wins: 0, losses: 0, draws: 0, rating: 1500 });
+
+    const unsettled = await play([alice, bob], [20, 10], false);
+    await expect(ratings.recordGame(unsettled)).to.be.revertedWith("Game not settled");
+
+    const first = await play([alice, bob], [30, 10]);
+    await expect(ratings.recordGame(first)).to.emit(ratings, "GameRecorded").withArgs(first, alice.address, false);
+    await expect(ratings.recordGame(first)).to.be.revertedWith("Game already recorded");
+    expect(await reader.getPlayerStats(alice.address)).to.deep.equal({ wins: 1, losses: 0, draws: 0, rating: 1516 });
+    expect(await reader.getPlayerStats(bob.address)).to.deep.equal({ wins: 0, losses: 1, draws: 0, rating: 1484 });
+
+    // The lower rated winner gains more than the 16 points an even game is worth.
+    await reader.recordGame(await play([alice, bob], [5, 40]));
+    expect((await reader.getPlayerStats(bob.address)).rating).to.equal(1501);
+    expect((await reader.getPlayerStats(alice.address)).rating).to.equal(1499);
+
+    await reader.recordGame(await play([alice, bob], [10, 10]));
+    expect(await reader.getPlayerStats(alice.address)).to.deep.equal({ wins: 1, losses: 1, draws: 1, rating: 1499 });
+    expect(await reader.isRecorded(unsettled)).to.equal(false);
+  });
+
+  it("rates multi-seat games pairwise and ranks the leaderboard", async function () {
+    const [alice, bob, carol, dave] = accounts;
+    await reader.recordGame(await play([alice, bob], [30, 10]));
+    await reader.recordGame(await play([bob, carol, dave], [10, 40, 20]));
+
+    const stats = await Promise.all([alice, bob, carol, dave].map((player) => reader.getPlayerStats(player.address)));
+    expect(stats.map((entry) => entry.rating)).to.deep.equal([1516, 1477, 1515, 1492]);
+    expect(stats.map((entry) => [entry.wins, entry.losses])).to.deep.equal([
+      [1, 0],
+      [0, 2],
+      [1, 0],
+      [0, 1],
+    ]);
+
+    const top = await reader.getLeaderboard(3);
+    expect(top.map((standing) => standing.player)).to.deep.equal([alice.address, carol.address, dave.address]);
+    expect(top[1].stats).to.deep.equal(stats[2]);
+    expect(await reader.getLeaderboard(10)).to.have.length(4);
+    expect(await ratings.playerCount()).to.equal(4);
+  });
+});
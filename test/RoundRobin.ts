@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HonestHouse__factory } from "../types";
+import { playRoundRobin, rankStandings, standingsCsv } from "../bot/roundRobin";
+import { adaptive, fixedFraction } from "../bot/strategies";
+import type { BidStrategy } from "../bot/strategies";
+import { END_RULE_COINS, HonestHouseClient } from "../client/HonestHouseClient";
+import { deployHouse, gameRules } from "./fixtures";
+
+describe("playRoundRobin", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+  });
+
+  it("plays every pair from both sides and ranks the strategies", async function () {
+    const [deployer, ...players] = await ethers.getSigners();
+    const house = await deployHouse(deployer);
+    const address = await house.getAddress();
+    const strategies = [fixedFraction(0.1), fixedFraction(0.5), adaptive()];
+    const entrants = strategies.map((strategy, i) => ({
+      strategy,
+      client: new HonestHouseClient({ address, abi: HonestHouse__factory.abi, runner: players[i], fhevm }),
+    }));
+
+    const result = await playRoundRobin(entrants, gameRules({ maxRounds: 2 }), 2);
+
+    expect(result.matches).to.have.length(6);
+    expect(result.matches[0]).to.deep.include({
+      players: ["fixed:0.1", "fixed:0.5"],
+      coins: [81, 25],
+      scores: [0, 20],
+    });
+    expect(result.matches[1].players).to.deep.equal(["fixed:0.5", "fixed:0.1"]);
+    for (const standing of result.standings) {
+      expect(standing.played).to.equal(4);
+      expect(standing.wins + standing.draws + standing.losses).to.equal(4);
+    }
+    expect(result.standings[0]).to.include({ rank: 1, strategy: "adaptive", wins: 4, totalScore: 60 });
+    expect(result.standings[1]).to.include({ rank: 2, strategy: "fixed:0.5", wins: 2, averageCoinsLeft: 25 });
+    expect(result.standings[2]).to.include({ rank: 3, strategy: "fixed:0.1", losses: 4 });
+  });
+
+  it("finishes coins exhausted games once both sides spent their coins", async function () {
+    const [deployer, ...players] = await ethers.getSigners();
+    const house = await deployHouse(deployer);
+    const address = await house.getAddress();
+    const halfThenAll: BidStrategy = {
+      name: "half-then-all",
+      bid: ({ coins, round }) => (round === 1 ? coins / 2 : coins),
+    };
+    const entrants = [fixedFraction(1), halfThenAll].map((strategy, i) => ({
+      strategy,
+      client: new HonestHouseClient({ address, abi: HonestHouse__factory.abi, runner: players[i], fhevm }),
+    }));
+
+    const result = await playRoundRobin(entrants, gameRules({ endRule: END_RULE_COINS, maxRounds: 0 }), 1);
+
+    expect(result.matches[0]).to.deep.include({ coins: [0, 0], scores: [10, 10], winner: undefined });
+    expect((await entrants[0].client.getGameSummary(result.matches[0].gameId)).round).to.equal(2);
+  });
+
+  it("breaks ties on total score and exports CSV", function () {
+    const standings = rankStandings(
+      ["a", "b, c"],
+      [
+        { gameId: 1, players: ["a", "b, c"], coins: [0, 0], scores: [10, 10] },
+        { gameId: 2, players: ["b, c", "a"], coins: [0, 0], scores: [20, 20] },
+      ],
+    );
+    expect(standings.map((standing) => standing.draws)).to.deep.equal([2, 2]);
+    expect(standingsCsv(standings).split("\n")[2]).to.equal('2,"b, c",2,0,2,0,30,15,0');
+  });
+});
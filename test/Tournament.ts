@@ -0,0 +1,171 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HonestHouse, HonestHouse__factory, Tournament, Tournament__factory } from "../types";
+import {
+  HonestHouseClient,
+  TOURNAMENT_FINISHED,
+  TOURNAMENT_RUNNING,
+  TournamentClient,
+  ZERO_ADDRESS,
+  bracketRounds,
+} from "../client/HonestHouseClient";
+import { deployHouse, gameRules } from "./fixtures";
+
+const RULES = gameRules({ maxRounds: 1 });
+
+describe("Tournament", function () {
+  let accounts: HardhatEthersSigner[];
+  let house: HonestHouse;
+  let tournament: Tournament;
+
+  before(async function () {
+    accounts = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    house = await deployHouse();
+    tournament = await ((await ethers.getContractFactory("Tournament")) as Tournament__factory).deploy(
+      await house.getAddress(),
+    );
+  });
+
+  function houseClient(player: HardhatEthersSigner) {
+    return new HonestHouseClient({
+      address: house.target as string,
+      abi: HonestHouse__factory.abi,
+      runner: player,
+      fhevm,
+    });
+  }
+
+  function tournamentClient(player: HardhatEthersSigner) {
+    return new TournamentClient({ address: tournament.target as string, abi: Tournament__factory.abi, runner: player });
+  }
+
+  function signer(address: string): HardhatEthersSigner {
+    return accounts.find((account) => account.address === address)!;
+  }
+
+  // Plays a match's game to settlement: the first seat creates and links it, both bid, and settling decides the match.
+  async function playMatch(tournamentId: number, matchIndex: number, bids: [number, number]): Promise<number> {
+    const { players } = (await tournamentClient(accounts[0]).getBracket(tournamentId))[matchIndex];
+    const [first, second] = players.map(signer);
+    const gameId = await tournamentClient(first).createMatchGame(houseClient(first), tournamentId, matchIndex);
+    await houseClient(second).joinGame(gameId);
+    await houseClient(first).startGame(gameId);
+    await houseClient(first).submitCoins(gameId, bids[0]);
+    await houseClient(second).submitCoins(gameId, bids[1]);
+    const decrypted = await fhevm.publicDecrypt([(await house.getGameResult(gameId)).encryptedOutcome]);
+    await house.settleGame(gameId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+    return gameId;
+  }
+
+  it("plays a full 8-player bracket and pays the champion the entry fees", async function () {
+    const [organizer, ...rest] = accounts;
+    const entrants = rest.slice(0, 8);
+    const fee = ethers.parseEther("0.1");
+    const organizing = tournamentClient(organizer);
+    const tournamentId = await organizing.createTournament(RULES, 8, fee);
+
+    for (const entrant of entrants) {
+      await tournamentClient(entrant).register(tournamentId);
+    }
+    await expect(tournament.connect(accounts[9]).register(tournamentId, { value: fee })).to.be.revertedWith(
+      "Tournament full",
+    );
+    await expect(tournament.connect(entrants[0]).startTournament(tournamentId)).to.be.revertedWith("Not organizer");
+    await expect(tournament.startTournament(tournamentId)).to.emit(tournament, "TournamentStarted").withArgs(1, 8);
+    expect((await organizing.getTournament(tournamentId)).status).to.equal(TOURNAMENT_RUNNING);
+
+    // Entrant i meets entrant i + 4, and the later entrant bids more and wins every match.
+    const strength = (address: string) => entrants.findIndex((entrant) => entrant.address === address);
+    const bracket = await organizing.getBracket(tournamentId);
+    expect(bracket).to.have.length(7);
+    expect(bracket[0].players).to.deep.equal([entrants[0].address, entrants[4].address]);
+    for (let matchIndex = 0; matchIndex < 7; matchIndex++) {
+      const { players } = (await organizing.getBracket(tournamentId))[matchIndex];
+      const bids = players.map((player) => 10 + strength(player) * 5) as [number, number];
+      const gameId = await playMatch(tournamentId, matchIndex, bids);
+      expect(await organizing.getMatchOf(gameId)).to.equal(undefined);
+    }
+
+    const rounds = bracketRounds(await organizing.getBracket(tournamentId));
+    expect(rounds.map((round) => round.map((match) => strength(match.winner)))).to.deep.equal([
+      [4, 5, 6, 7],
+      [5, 7],
+      [7],
+    ]);
+    const summary = await organizing.getTournament(tournamentId);
+    expect(summary.status).to.equal(TOURNAMENT_FINISHED);
+    expect(summary.champion).to.equal(entrants[7].address);
+    expect(summary.prize).to.equal(fee * 8n);
+
+    await expect(tournament.connect(entrants[0]).withdraw()).to.be.revertedWith("Nothing to withdraw");
+    await expect(tournament.connect(entrants[7]).withdraw()).to.changeEtherBalances(
+      [entrants[7], tournament],
+      [fee * 8n, -fee * 8n],
+    );
+  });
+
+  it("gives byes, replays draws, and only links the pair's own games", async function () {
+    const [organizer, alice, bob, carol, mallory] = accounts;
+    const tournamentId = await tournamentClient(organizer).createTournament(RULES, 4, 0n, 60);
+    for (const entrant of [alice, bob, carol]) {
+      await tournamentClient(entrant).register(tournamentId);
+    }
+    await tournament.startTournament(tournamentId);
+
+    // Three entrants make a 4-player bracket: alice meets carol, and bob's empty slot sends him to the final.
+    const bracket = await tournamentClient(organizer).getBracket(tournamentId);
+    expect(bracket.map((match) => match.players)).to.deep.equal([
+      [alice.address, carol.address],
+      [bob.address, ZERO_ADDRESS],
+      [ZERO_ADDRESS, bob.address],
+    ]);
+    expect(bracket[1].winner).to.equal(bob.address);
+    await expect(tournament.connect(bob).linkGame(tournamentId, 2, 1)).to.be.revertedWith("Match not ready");
+
+    await houseClient(alice).createGame(RULES, { private: true, invitees: [mallory.address, carol.address] });
+    await houseClient(alice).createGame({ ...RULES, maxRounds: 2 }, { private: true, invitees: [carol.address] });
+    await houseClient(alice).createGame(RULES);
+    await expect(tournament.connect(mallory).linkGame(tournamentId, 0, 1)).to.be.revertedWith("Not in match");
+    await expect(tournament.connect(carol).linkGame(tournamentId, 0, 1)).to.be.revertedWith("Not game creator");
+    await expect(tournament.connect(alice).linkGame(tournamentId, 0, 2)).to.be.revertedWith("Rules differ");
+    await expect(tournament.connect(alice).linkGame(tournamentId, 0, 3)).to.be.revertedWith("Game not open");
+    // A game carol could never join would hand alice a walkover once the join window passes.
+    await houseClient(alice).createGame(RULES, { private: true });
+    await expect(tournament.connect(alice).linkGame(tournamentId, 0, 4)).to.be.revertedWith("Opponent not invited");
+
+    // Only a game that calls the tournament back when it settles can decide a match.
+    await expect(tournament.connect(alice).linkGame(tournamentId, 0, 1)).to.be.revertedWith("Game not hooked");
+    await houseClient(alice).setSettlementHook(1, tournamentClient(alice).address);
+    await expect(tournament.connect(alice).onGameSettled(1)).to.be.revertedWith("Not the house");
+
+    // A game the pair did not finish with each other never decides the match; a draw sends them back to play again.
+    await tournament.connect(alice).linkGame(tournamentId, 0, 1);
+    await houseClient(mallory).joinGame(1);
+    await expect(tournament.reportGame(1)).to.be.revertedWith("Game not settled");
+    const drawn = await playMatch(tournamentId, 0, [20, 20]);
+    expect((await tournamentClient(organizer).getBracket(tournamentId))[0].gameId).to.equal(0);
+    expect(await tournamentClient(organizer).getMatchOf(drawn)).to.equal(undefined);
+    await expect(tournament.reportGame(drawn)).to.be.revertedWith("Game not linked");
+    await playMatch(tournamentId, 0, [10, 30]);
+
+    // Bob never joins the final carol opened, so she takes it by walkover once the join window passes.
+    const carolsTournament = tournamentClient(carol);
+    const finalGame = await carolsTournament.createMatchGame(houseClient(carol), tournamentId, 2);
+    await expect(tournament.connect(bob).claimWalkover(tournamentId, 2)).to.be.revertedWith("Join window open");
+    await time.increase(61);
+    await expect(tournament.connect(bob).claimWalkover(tournamentId, 2)).to.be.revertedWith("Not game creator");
+    await expect(tournament.connect(carol).claimWalkover(tournamentId, 2))
+      .to.emit(tournament, "TournamentFinished")
+      .withArgs(tournamentId, carol.address, 0);
+    expect(await carolsTournament.getMatchOf(finalGame)).to.equal(undefined);
+    expect((await carolsTournament.getTournament(tournamentId)).status).to.equal(TOURNAMENT_FINISHED);
+  });
+});
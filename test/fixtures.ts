@@ -0,0 +1,35 @@
+import type { Signer } from "ethers";
+import { ethers } from "hardhat";
+import type { HonestHouse } from "../types";
+import { END_RULE_ROUNDS, HOUSE_LIBRARIES, ZERO_ADDRESS } from "../client/HonestHouseClient";
+import type { GameRules } from "../client/HonestHouseClient";
+
+// Deploys HonestHouse linked against fresh copies of its libraries, from the first signer unless given one.
+export async function deployHouse(signer?: Signer): Promise<HonestHouse> {
+  const libraries: Record<string, string> = {};
+  for (const name of HOUSE_LIBRARIES) {
+    libraries[name] = await (await ethers.deployContract(name, signer)).getAddress();
+  }
+  return (await ethers.deployContract("HonestHouse", { libraries, signer })) as unknown as HonestHouse;
+}
+
+// Rules shared by every suite: a free two-seat game of five rounds with 100 coins and a reward of 10. Suites override
+// only the fields they exercise, so a new rule field only needs a default here.
+export function gameRules(overrides: Partial<GameRules> = {}): GameRules {
+  return {
+    startingCoins: 100,
+    roundReward: 10,
+    maxRounds: 5,
+    splitTies: false,
+    endRule: END_RULE_ROUNDS,
+    turnTimeout: 0,
+    forfeitOnTimeout: false,
+    seatCount: 2,
+    stakeToken: ZERO_ADDRESS,
+    stakeAmount: 0n,
+    coinToken: ZERO_ADDRESS,
+    revealAfterGame: false,
+    spectatorDelay: 0,
+    ...overrides,
+  };
+}